@@ -1,27 +1,79 @@
 #!/usr/bin/env node
 
-import { readFile, realpath } from 'node:fs/promises';
-import { resolve } from 'node:path';
+import { readFile, writeFile } from 'node:fs/promises';
+import { relative, resolve } from 'node:path';
 import { fileURLToPath } from 'node:url';
 import { parseArgs } from 'node:util';
 
-import Ajv, { ValidateFunction } from 'ajv';
+import Ajv, { ErrorObject, ValidateFunction } from 'ajv';
 import { fromHtml } from 'hast-util-from-html';
 import { fromMarkdown } from 'mdast-util-from-markdown';
+import { toString } from 'mdast-util-to-string';
+import picomatch from 'picomatch';
 import { visit } from 'unist-util-visit';
 import { URI } from 'vscode-uri';
-import { parseDocument, visit as yamlVisit } from 'yaml';
+import { Document, isMap, isNode, isScalar, parseDocument, visit as yamlVisit } from 'yaml';
 
 import type { Html, Heading } from 'mdast';
-import type { Node } from 'unist';
-
-import { DocsWorkspace } from '../lib/markdown.js';
+import type { Node, Position } from 'unist';
+
+import {
+  isMainModule,
+  resolveCommonOptions,
+  runCommand,
+  CommandOptions,
+  COMMON_OPTIONS,
+} from '../lib/cli.js';
+import {
+  formatDiagnostics,
+  isOutputFormat,
+  DiagnosticSeverity,
+  LintDiagnostic,
+} from '../lib/diagnostics.js';
+import { DocsWorkspace, getHeadingAnchors } from '../lib/markdown.js';
 
 // "<any char>: <match group>"
 const possibleStringRegex = /^[ \S]+?: *?(\S[ \S]+?)$/gm;
 const nonAlphaNumericDotRegex = /[^a-zA-Z0-9.]/g;
+const pullRequestUrlRegex = /^https:\/\/github\.com\/([\w.-]+)\/([\w.-]+)\/pull\/(\d+)$/;
 const possibleDescriptionRegex = /^[ \S]+?description: *?(\S[ \S]+?)$/gm;
+// Headings for classes and events, the rest of the API headings are inline code like "`win.setBounds(bounds)`"
+const classOrEventHeadingRegex = /^(Class: \w+|Event: '[^']+')/;
+const inlineCodeApiHeadingRegex = /^[\w.]+\.\w+(\(.*\))?$/s;
+// Opening fence of a code block, with its info string as the match group
+const codeFenceRegex = /^[ \t]*(?:`{3,}|~{3,})(.*)$/m;
+// "Planned Breaking API Changes (<major version>.0)"
+const plannedBreakingChangesRegex = /^Planned Breaking API Changes \((\d+)\.0\)$/;
+
+// Schema shipped with the package, which is used unless another schema is given
+const DEFAULT_SCHEMA = fileURLToPath(
+  new URL('../../configs/api-history.schema.json', import.meta.url),
+);
+
+// Canonical order of the sections in an API history block, and of the keys in each change
+const SECTION_ORDER = ['added', 'changes', 'deprecated'];
+const CHANGE_KEY_ORDER = ['pr-url', 'breaking-changes-header', 'description'];
+
+const RULE_DESCRIPTIONS: Record<string, string> = {
+  'api-history/breaking-changes-header':
+    'Breaking changes headers must exist in the breaking changes file',
+  'api-history/breaking-changes-reference':
+    'Breaking changes must be referenced by API history, or be allowlisted',
+  'api-history/comments': "API history blocks can't contain YAML comments",
+  'api-history/description': 'Descriptions must be surrounded by double quotes',
+  'api-history/format': 'API history blocks must be a YAML code block with the history info string',
+  'api-history/missing': 'API headings must be followed by an API history block',
+  'api-history/placement': 'API history blocks must be preceded by a heading',
+  'api-history/pull-request':
+    'Pull request URLs must be for merged electron/electron pull requests in the index',
+  'api-history/schema': 'API history must adhere to the schema',
+  'api-history/semantics': "API history must be consistent in ways the schema can't check",
+  'api-history/string': 'Strings starting or ending with special characters should be quoted',
+  'api-history/unrecognized': 'Code blocks in HTML comments which are not API history blocks',
+  'api-history/yaml': 'API history must be valid YAML',
+};
 
+// If you change these interfaces, remember to edit the default schema in configs/api-history.schema.json
 interface ChangeSchema {
   'pr-url': string;
   'breaking-changes-header'?: string;
@@ -34,28 +86,58 @@ interface ApiHistory {
   changes?: ChangeSchema[];
 }
 
-interface Options {
+interface PullRequestIndexEntry {
+  merged: boolean;
+  // Numbers of the pull requests which backported this pull request to release branches
+  backports?: number[];
+  // Versions this pull request was released in
+  releases?: string[];
+}
+
+// Pull requests from the release tooling, keyed by pull request number
+type PullRequestIndex = Record<string, PullRequestIndexEntry>;
+
+// API history for every heading in a document, keyed by the heading's ID
+type DocumentApiHistory = Record<string, ApiHistory>;
+
+interface Options extends CommandOptions {
+  // Normalize the formatting of API history blocks in place
+  fix?: boolean;
   // Check if the API history block is preceded by a heading
   checkPlacement?: boolean;
   // Check if the 'breaking-changes-header' heading id's in the API history block exist in the breaking changes file at this filepath
   breakingChangesFile?: string;
+  // Check if every planned breaking change in the breaking changes file is referenced by API history, under
+  // changes or deprecated, from a pull request released in the version the breaking change is planned for
+  checkBreakingChangesReferences?: boolean;
+  // File listing the heading IDs of breaking changes which don't need to be referenced, one per line
+  breakingChangesAllowlist?: string;
   // Check if the API history block contains strings that might cause issues when parsing the YAML
   checkStrings?: boolean;
   // Check if the API history block contains descriptions that aren't surrounded by double quotation marks
   checkDescriptions?: boolean;
   // Check if the API history block contains comments
   disallowComments?: boolean;
-  // Array of glob patterns to ignore when processing files
-  ignoreGlobs?: string[];
-  // Check if the API history block's YAML adheres to the JSON schema at this filepath
+  // Check if the API history block's YAML adheres to the JSON schema at this filepath, instead of the default schema
   schema?: string;
-
-  // TODO: Implement this when GH_TOKEN isn't needed to fetch PR release versions anymore
-  // checkPullRequestLinks: boolean;
+  // Write the API history of valid blocks to a JSON file at this filepath, keyed by document and heading ID
+  output?: string;
+  // Check if the pull request URLs in the API history block exist in the pull request index at this filepath
+  pullRequestIndex?: string;
+  // Report HTML comments containing a code block which isn't an API history block
+  reportUnrecognized?: boolean;
+  // Check if the API headings in documents matching these glob patterns are followed by an API history block
+  requireHistory?: string[];
+  // File listing API headings which don't need an API history block, one '<document>#<heading ID>' per line
+  historyAllowlist?: string;
 }
 
+// Start and end offsets in the text of a document
+type OffsetRange = [number, number];
+
 interface PossibleHistoryBlock {
   previousNode?: Node;
+  position?: Position;
   value: string;
 }
 
@@ -63,29 +145,400 @@ function isHTML(node: Node): node is Html {
   return node.type === 'html';
 }
 
+// Number of insertions, deletions, substitutions or transpositions of adjacent
+// characters needed to change one string into the other
+function getEditDistance(a: string, b: string) {
+  const distances = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0)),
+  );
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+
+      distances[i][j] = Math.min(
+        distances[i - 1][j] + 1,
+        distances[i][j - 1] + 1,
+        distances[i - 1][j - 1] + cost,
+      );
+
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        distances[i][j] = Math.min(distances[i][j], distances[i - 2][j - 2] + 1);
+      }
+    }
+  }
+
+  return distances[a.length][b.length];
+}
+
+// Info strings which look like they're meant to be 'YAML history', like 'yml history' or 'YAML histroy'
+function isNearMissInfoString(info: string) {
+  return info
+    .toLowerCase()
+    .split(/\s+/)
+    .some((word) => getEditDistance(word, 'history') <= 2);
+}
+
+// Very loose check for YAML history blocks to help catch user error, which also
+// catches HTML comments with a code block whose info string is a near miss
+function isPossibleApiHistoryBlock(node: Node): node is Html {
+  if (!isHTML(node)) return false;
+
+  if (
+    node.value.includes('```') &&
+    node.value.toLowerCase().includes('yaml') &&
+    node.value.toLowerCase().includes('history')
+  ) {
+    return true;
+  }
+
+  const info = codeFenceRegex.exec(node.value)?.[1];
+
+  return node.value.includes('<!--') && info !== undefined && isNearMissInfoString(info);
+}
+
+function isApiHeading(node: Heading) {
+  const [firstChild] = node.children;
+
+  return (
+    classOrEventHeadingRegex.test(toString(node)) ||
+    (firstChild?.type === 'inlineCode' && inlineCodeApiHeadingRegex.test(firstChild.value))
+  );
+}
+
 export async function findPossibleApiHistoryBlocks(
   content: string,
 ): Promise<PossibleHistoryBlock[]> {
   const tree = fromMarkdown(content);
   const codeBlocks: PossibleHistoryBlock[] = [];
 
-  visit(
-    tree,
-    // Very loose check for YAML history blocks to help catch user error
-    (node): node is Html =>
-      isHTML(node) &&
-      node.value.includes('```') &&
-      node.value.toLowerCase().includes('yaml') &&
-      node.value.toLowerCase().includes('history'),
-    (node: Html, index) => {
-      codeBlocks.push({
-        previousNode: index ? tree.children[index - 1] : undefined,
-        value: node.value,
+  // Blocks nested in lists or blockquotes are found too, with the node before them in their parent
+  visit(tree, isPossibleApiHistoryBlock, (node: Html, index, parent) => {
+    codeBlocks.push({
+      previousNode: index ? parent?.children[index - 1] : undefined,
+      position: node.position,
+      value: node.value,
+    });
+  });
+
+  return codeBlocks;
+}
+
+// Finds HTML comments containing a code block which aren't possible API history blocks
+function findUnrecognizedCodeBlockComments(content: string) {
+  const comments: Html[] = [];
+
+  visit(fromMarkdown(content), 'html', (node: Html) => {
+    if (
+      node.value.includes('<!--') &&
+      codeFenceRegex.test(node.value) &&
+      !isPossibleApiHistoryBlock(node)
+    ) {
+      comments.push(node);
+    }
+  });
+
+  return comments;
+}
+
+// Finds the headings for APIs (classes, methods, properties and events)
+// and whether each one is followed by a possible API history block
+function findApiHeadings(content: string) {
+  const headings: { node: Heading; hasHistory: boolean }[] = [];
+
+  visit(fromMarkdown(content), 'heading', (node: Heading, index, parent) => {
+    if (!isApiHeading(node)) return;
+
+    const nextNode = index !== undefined ? parent?.children[index + 1] : undefined;
+    headings.push({ node, hasHistory: !!nextNode && isPossibleApiHistoryBlock(nextNode) });
+  });
+
+  return headings;
+}
+
+// Maps the offset of each heading to its ID, the same as GitHub
+function getHeadingIds(content: string) {
+  return new Map(
+    getHeadingAnchors(content).map(({ heading, anchor }) => [
+      heading.position!.start.offset!,
+      anchor,
+    ]),
+  );
+}
+
+// Converts an offset in the text to a 1-based line and column
+function toLineAndColumn(text: string, offset: number) {
+  const lineStart = offset ? text.lastIndexOf('\n', offset - 1) + 1 : 0;
+
+  return { line: text.slice(0, offset).split('\n').length, column: offset - lineStart + 1 };
+}
+
+// Finds the YAML node a schema validation error is for, from its JSON pointer
+function getSchemaErrorNode(document: Document, { instancePath, keyword, params }: ErrorObject) {
+  const path = instancePath
+    .split('/')
+    .slice(1)
+    .map((segment) => segment.replace(/~1/g, '/').replace(/~0/g, '~'));
+  const node = path.length ? document.getIn(path, true) : document.contents;
+
+  // Point at the property itself rather than the object containing it
+  if (keyword === 'additionalProperties' && isMap(node)) {
+    return (
+      node.items.find(({ key }) => isScalar(key) && key.value === params.additionalProperty)?.key ??
+      node
+    );
+  }
+
+  return node;
+}
+
+// Checks the pull request URLs in the API history against the pull request index,
+// returning the path to each 'pr-url' with a problem and a description of the problem
+function checkPullRequests(
+  history: unknown,
+  pullRequests: PullRequestIndex,
+  backportOf: Map<number, number>,
+) {
+  const problems: { path: (string | number)[]; message: string }[] = [];
+
+  if (typeof history !== 'object' || history === null) return problems;
+
+  for (const section of SECTION_ORDER) {
+    const changes: unknown = (history as Record<string, unknown>)[section];
+
+    if (!Array.isArray(changes)) continue;
+
+    // Pull requests in added, keyed by the pull request they're a backport of (if any)
+    const added = new Map<number, number>();
+
+    for (const [idx, change] of changes.entries()) {
+      const url: unknown = change?.['pr-url'];
+
+      if (typeof url !== 'string') continue;
+
+      const path = [section, idx, 'pr-url'];
+      const match = pullRequestUrlRegex.exec(url);
+
+      if (!match) {
+        problems.push({ path, message: `Invalid pull request URL: ${url}` });
+        continue;
+      }
+
+      const [, owner, repo, number] = match;
+
+      if (`${owner}/${repo}` !== 'electron/electron') {
+        problems.push({ path, message: `Pull request URL isn't for electron/electron: ${url}` });
+        continue;
+      }
+
+      const pullRequest = pullRequests[number];
+
+      if (!pullRequest) {
+        problems.push({
+          path,
+          message: `Couldn't find pull request #${number} in the pull request index`,
+        });
+        continue;
+      }
+
+      if (!pullRequest.merged) {
+        problems.push({ path, message: `Pull request #${number} hasn't been merged` });
+      }
+
+      if (section === 'added') {
+        const original = backportOf.get(Number(number));
+        const root = original ?? Number(number);
+
+        if (added.has(root)) {
+          problems.push({
+            path,
+            message: `Pull request #${number} is already added by #${added.get(root)}, backports shouldn't be added separately`,
+          });
+        } else if (original !== undefined) {
+          problems.push({
+            path,
+            message: `Pull request #${number} is a backport of #${original}, the original pull request should be added`,
+          });
+        }
+
+        added.set(root, Number(number));
+      }
+    }
+  }
+
+  return problems;
+}
+
+// Checks the API history for problems the schema can't express, returning the
+// path to each problem and a description of it, like checkPullRequests
+function checkSemantics(history: ApiHistory, checkPullRequestUrls: boolean) {
+  const problems: { path: (string | number)[]; message: string }[] = [];
+  const pullRequestUrls = new Set<string>();
+
+  for (const section of SECTION_ORDER as (keyof ApiHistory)[]) {
+    const changes = history[section];
+
+    if (!Array.isArray(changes)) continue;
+
+    if (!changes.length) {
+      problems.push({
+        path: [section],
+        message: `Section '${section}' is empty, it should be removed or have a change`,
       });
-    },
+      continue;
+    }
+
+    for (const [idx, change] of changes.entries()) {
+      const url = change['pr-url'];
+      const match = pullRequestUrlRegex.exec(url);
+
+      // The pull request index check reports these with more detail
+      if (checkPullRequestUrls && !match) {
+        problems.push({
+          path: [section, idx, 'pr-url'],
+          message: `Invalid pull request URL: ${url}`,
+        });
+      } else if (checkPullRequestUrls && `${match![1]}/${match![2]}` !== 'electron/electron') {
+        problems.push({
+          path: [section, idx, 'pr-url'],
+          message: `Pull request URL isn't for electron/electron: ${url}`,
+        });
+      }
+
+      if (pullRequestUrls.has(url)) {
+        problems.push({
+          path: [section, idx, 'pr-url'],
+          message: `Pull request URL is already in the API history block: ${url}`,
+        });
+      }
+      pullRequestUrls.add(url);
+
+      if (section === 'added' && change['breaking-changes-header']) {
+        problems.push({
+          path: [section, idx, 'breaking-changes-header'],
+          message: `Breaking changes headers are only allowed under changes or deprecated: ${change['breaking-changes-header']}`,
+        });
+      }
+    }
+  }
+
+  return problems;
+}
+
+// Breaking changes referenced by an API history block, even if the block is invalid, so that a
+// mistake in the block isn't also reported as the breaking change not being referenced
+function getReferencedBreakingChanges(yaml: string) {
+  const headers: string[] = [];
+  let history: unknown;
+
+  try {
+    history = parseDocument(yaml).toJS();
+  } catch {
+    return headers;
+  }
+
+  if (typeof history !== 'object' || history === null) return headers;
+
+  for (const section of ['changes', 'deprecated'] as const) {
+    const changes: unknown = (history as Record<string, unknown>)[section];
+
+    if (!Array.isArray(changes)) continue;
+
+    for (const change of changes) {
+      const header: unknown = change?.['breaking-changes-header'];
+
+      if (typeof header === 'string') {
+        headers.push(header);
+      }
+    }
+  }
+
+  return headers;
+}
+
+function hasComments(document: Document) {
+  let commentFound = false;
+
+  yamlVisit(document, (_, node) => {
+    if (
+      typeof node === 'object' &&
+      node !== null &&
+      ('comment' in node || 'commentBefore' in node)
+    ) {
+      commentFound = true;
+      return yamlVisit.BREAK;
+    }
+  });
+
+  return commentFound;
+}
+
+// Reads a file with an entry on each line, skipping empty lines and lines starting with '#'
+async function readAllowlist(filepath: string) {
+  const entries = await readFile(filepath, { encoding: 'utf-8' });
+
+  return new Set(
+    entries
+      .split('\n')
+      .map((line) => line.trim())
+      .filter((entry) => entry && !entry.startsWith('#')),
   );
+}
 
-  return codeBlocks;
+function sortKeys(value: Record<string, unknown>, order: string[]) {
+  const rank = (key: string) => (order.includes(key) ? order.indexOf(key) : order.length);
+
+  return Object.fromEntries(Object.entries(value).sort(([a], [b]) => rank(a) - rank(b)));
+}
+
+// Returns the API history block's YAML in a consistent style, or null if
+// it can't be formatted without changing its meaning or losing comments
+function formatApiHistory(yaml: string) {
+  const document = parseDocument(yaml);
+  const history = document.toJS();
+
+  if (
+    document.errors.length ||
+    hasComments(document) ||
+    typeof history !== 'object' ||
+    history === null ||
+    Array.isArray(history)
+  ) {
+    return null;
+  }
+
+  const formatted = new Document(
+    Object.fromEntries(
+      Object.entries(sortKeys(history, SECTION_ORDER)).map(([section, changes]) => [
+        section,
+        Array.isArray(changes)
+          ? changes.map((change) =>
+              typeof change === 'object' && change !== null && !Array.isArray(change)
+                ? sortKeys(change, CHANGE_KEY_ORDER)
+                : change,
+            )
+          : changes,
+      ]),
+    ),
+  );
+
+  // Descriptions are always double quoted, as are other strings which
+  // start or end with a special character, see the string check below
+  yamlVisit(formatted, {
+    Pair(_, { key, value }) {
+      if (!isScalar(value) || typeof value.value !== 'string') return;
+
+      if (
+        (isScalar(key) && key.value === 'description') ||
+        value.value.at(0)?.match(nonAlphaNumericDotRegex) ||
+        value.value.at(-1)?.match(nonAlphaNumericDotRegex)
+      ) {
+        value.type = 'QUOTE_DOUBLE';
+      }
+    },
+  });
+
+  return formatted.toString({ indent: 2, indentSeq: true, lineWidth: 0 }).trimEnd();
 }
 
 type LintingResults = {
@@ -93,19 +546,30 @@ type LintingResults = {
   documentCounter: number;
   errorCounter: number;
   warningCounter: number;
+  diagnostics: LintDiagnostic[];
 };
 
 async function main(
   workspaceRoot: string,
   globs: string[],
   {
+    fix,
     checkPlacement,
     breakingChangesFile,
+    checkBreakingChangesReferences,
+    breakingChangesAllowlist,
+    pullRequestIndex,
     checkStrings,
     checkDescriptions,
     disallowComments,
-    schema,
+    format = 'text',
+    schema = DEFAULT_SCHEMA,
+    output,
+    reportUnrecognized,
+    requireHistory = [],
+    historyAllowlist,
     ignoreGlobs = [],
+    workspace,
   }: Options,
 ): Promise<LintingResults> {
   let documentCounter = 0;
@@ -113,45 +577,120 @@ async function main(
   let errorCounter = 0;
   let warningCounter = 0;
 
+  const diagnostics: LintDiagnostic[] = [];
+  const apiHistory: Record<string, DocumentApiHistory> = {};
+
+  const logError = format === 'text' ? console.error : () => {};
+  const logWarning = format === 'text' ? console.warn : () => {};
+
+  // Diagnostics are reported at the range of the problem in the document text,
+  // returning the location to use in the human readable output
+  const report = (
+    filepath: string,
+    text: string,
+    [start, end]: OffsetRange,
+    severity: DiagnosticSeverity,
+    ruleId: string,
+    message: string,
+  ) => {
+    const { line, column } = toLineAndColumn(text, start);
+    const { line: endLine, column: endColumn } = toLineAndColumn(text, end);
+
+    diagnostics.push({
+      file: filepath,
+      line,
+      column,
+      endLine,
+      endColumn,
+      severity,
+      ruleId: `api-history/${ruleId}`,
+      message,
+    });
+
+    return `${filepath}:${line}:${column}`;
+  };
+
   try {
-    const workspace = new DocsWorkspace(workspaceRoot, globs, ignoreGlobs);
+    workspace ??= new DocsWorkspace(workspaceRoot, globs, ignoreGlobs);
+
+    let validateAgainstSchema: ValidateFunction<ApiHistory>;
+
+    try {
+      const ajv = new Ajv();
+      const ApiHistorySchemaFile = await readFile(schema, { encoding: 'utf-8' });
+      const ApiHistorySchema = JSON.parse(ApiHistorySchemaFile);
+      validateAgainstSchema = ajv.compile<ApiHistory>(ApiHistorySchema);
+    } catch (error: any) {
+      throw new Error(
+        `Error occurred while attempting to read API history schema and compile AJV validator:\n${error}\n`,
+      );
+    }
 
-    let validateAgainstSchema: ValidateFunction<ApiHistory> | null = null;
+    let pullRequests: PullRequestIndex | null = null;
+    // Backport pull requests, mapped to the pull request they're a backport of
+    const backportOf = new Map<number, number>();
 
-    if (schema) {
+    if (pullRequestIndex) {
       try {
-        const ajv = new Ajv();
-        const ApiHistorySchemaFile = await readFile(schema, { encoding: 'utf-8' });
-        const ApiHistorySchema = JSON.parse(ApiHistorySchemaFile);
-        validateAgainstSchema = ajv.compile<ApiHistory>(ApiHistorySchema);
+        pullRequests = JSON.parse(
+          await readFile(pullRequestIndex, { encoding: 'utf-8' }),
+        ) as PullRequestIndex;
+
+        for (const [number, { backports = [] }] of Object.entries(pullRequests)) {
+          for (const backport of backports) {
+            backportOf.set(backport, Number(number));
+          }
+        }
+      } catch (error: any) {
+        throw new Error(
+          `Error occurred while attempting to read the pull request index:\n${error}\n`,
+        );
+      }
+    }
+
+    // API headings which don't need an API history block, as '<document>#<heading ID>'
+    let allowlist = new Set<string>();
+
+    if (historyAllowlist) {
+      try {
+        allowlist = await readAllowlist(historyAllowlist);
       } catch (error: any) {
         throw new Error(
-          `Error occurred while attempting to read API history schema and compile AJV validator:\n${error}\n`,
+          `Error occurred while attempting to read the API history allowlist:\n${error}\n`,
         );
       }
     }
 
     let breakingChangesFileHeadingIds: string[] | null = null;
+    let breakingChangesText = '';
+    // Breaking changes under a 'Planned Breaking API Changes' heading, with the major version they're planned for
+    const plannedBreakingChanges: { id: string; version: string; range: OffsetRange }[] = [];
+    // Heading IDs of breaking changes referenced by API history, and those which don't need to be
+    const referencedBreakingChanges = new Set<string>();
+    let breakingChangesAllowlistEntries = new Set<string>();
 
     if (breakingChangesFile) {
       try {
-        const breakingChanges = await readFile(breakingChangesFile, { encoding: 'utf-8' });
-        const markdownBreakingChanges = fromMarkdown(breakingChanges);
-        const headings = markdownBreakingChanges.children.filter(
-          (e) => e.type === 'heading' && e.depth === 3,
-        ) as Heading[];
-        // Convert to GitHub heading ID format
-        breakingChangesFileHeadingIds = headings.map((heading) =>
-          heading.children.reduce(
-            (acc, cur) =>
-              acc +
-              ('value' in cur ? cur.value : '')
-                .toLowerCase()
-                .replace(/ /g, '-')
-                .replace(/[^a-zA-Z0-9-]/g, ''),
-            '',
-          ),
-        );
+        breakingChangesText = await readFile(breakingChangesFile, { encoding: 'utf-8' });
+        let version: string | undefined;
+
+        breakingChangesFileHeadingIds = [];
+
+        for (const { heading, anchor: id } of getHeadingAnchors(breakingChangesText)) {
+          if (heading.depth === 2) {
+            version = plannedBreakingChangesRegex.exec(toString(heading))?.[1];
+          } else if (heading.depth === 3) {
+            breakingChangesFileHeadingIds.push(id);
+
+            if (version) {
+              plannedBreakingChanges.push({
+                id,
+                version,
+                range: [heading.position!.start.offset!, heading.position!.end.offset!],
+              });
+            }
+          }
+        }
       } catch (error: any) {
         throw new Error(
           `Error occurred while attempting to read breaking changes file and parse the heading IDs:\n${error}\n`,
@@ -159,20 +698,44 @@ async function main(
       }
     }
 
+    if (breakingChangesAllowlist) {
+      try {
+        breakingChangesAllowlistEntries = await readAllowlist(breakingChangesAllowlist);
+      } catch (error: any) {
+        throw new Error(
+          `Error occurred while attempting to read the breaking changes allowlist:\n${error}\n`,
+        );
+      }
+    }
+
     for (const document of await workspace.getAllMarkdownDocuments()) {
       const uri = URI.parse(document.uri);
       const filepath = workspace.getWorkspaceRelativePath(uri);
 
       documentCounter++;
 
-      const documentText = document.getText();
-      if (!documentText.includes('<!--')) continue;
+      const originalText = document.getText();
+      const requiresHistory =
+        requireHistory.length > 0 && picomatch.isMatch(filepath, requireHistory);
+      if (!originalText.includes('<!--') && !requiresHistory) continue;
+
+      const possibleHistoryBlocks = await findPossibleApiHistoryBlocks(originalText);
+      const headingIds = output ? getHeadingIds(originalText) : new Map<number, string>();
 
-      const possibleHistoryBlocks = await findPossibleApiHistoryBlocks(documentText);
+      // Blocks are fixed as they're linted, so offsets from parsing the original
+      // text need adjusting by how much the text before them has changed
+      let documentText = originalText;
+      let offsetDelta = 0;
 
       historyBlockForLoop: for (const possibleHistoryBlock of possibleHistoryBlocks) {
         historyBlockCounter++;
 
+        const blockStart = possibleHistoryBlock.position!.start.offset! + offsetDelta;
+        const blockRange = (): OffsetRange => [
+          blockStart,
+          possibleHistoryBlock.position!.end.offset! + offsetDelta,
+        ];
+
         const {
           children: [htmlComment],
         } = fromHtml(possibleHistoryBlock.value);
@@ -184,14 +747,23 @@ async function main(
         } = fromMarkdown(htmlComment.value);
 
         if (
-          codeBlock.type !== 'code' ||
+          codeBlock?.type !== 'code' ||
           codeBlock.lang?.toLowerCase() !== 'yaml' ||
           codeBlock.meta?.trim().toLowerCase() !== 'history'
         ) {
-          console.error(
+          const info =
+            codeBlock?.type === 'code'
+              ? [codeBlock.lang, codeBlock.meta].filter(Boolean).join(' ')
+              : undefined;
+          const message =
+            info !== undefined && isNearMissInfoString(info)
+              ? `Possible API history block has the info string '${info}', did you mean 'YAML history'?`
+              : "Couldn't extract matches from possible API history block, did you use the correct format?";
+          const location = report(filepath, documentText, blockRange(), 'error', 'format', message);
+          logError(
             'Error occurred while parsing Markdown document:\n\n' +
-              `'${filepath}'\n\n` +
-              "Couldn't extract matches from possible API history block, did you use the correct format?\n\n" +
+              `'${location}'\n\n` +
+              `${message}\n\n` +
               'Possible API history block:\n\n' +
               `${possibleHistoryBlock.value}\n`,
           );
@@ -199,14 +771,56 @@ async function main(
           continue;
         }
 
+        // The YAML is at the same offsets in the document as in the code block,
+        // after the start of the HTML comment and the opening code fence
+        const commentStart = blockStart + htmlComment.position!.start.offset! + '<!--'.length;
+        const codeBlockStart = commentStart + codeBlock.position!.start.offset!;
+        const codeBlockEnd = commentStart + codeBlock.position!.end.offset!;
+        const codeBlockText = documentText.slice(codeBlockStart, codeBlockEnd);
+        const contentStart = codeBlockStart + codeBlockText.indexOf('\n') + 1;
+        // Blocks nested in lists or blockquotes have their indentation or markers removed,
+        // so offsets inside them don't line up with the document and the whole block is used
+        const isVerbatim = documentText.slice(...blockRange()) === possibleHistoryBlock.value;
+        const contentRange = (start: number, end: number): OffsetRange =>
+          isVerbatim ? [contentStart + start, contentStart + end] : blockRange();
+        const nodeRange = (node: unknown) =>
+          isNode(node) && node.range ? contentRange(node.range[0], node.range[1]) : blockRange();
+
+        if (fix && isVerbatim) {
+          const formatted = formatApiHistory(codeBlock.value);
+
+          // Only the contents of the code block are replaced, leaving the fences and comment as-is
+          const contentEnd = codeBlockStart + codeBlockText.lastIndexOf('\n') + 1;
+          const hasClosingFence = /^\s*(`{3,}|~{3,})\s*$/.test(
+            documentText.slice(contentEnd, codeBlockEnd),
+          );
+
+          if (formatted !== null && formatted !== codeBlock.value && hasClosingFence) {
+            const newText = `${formatted}\n`;
+            documentText =
+              documentText.slice(0, contentStart) + newText + documentText.slice(contentEnd);
+            offsetDelta += newText.length - (contentEnd - contentStart);
+
+            // The rest of the checks are for the formatted block
+            codeBlock.value = formatted;
+          }
+        }
+
+        if (breakingChangesFile && checkBreakingChangesReferences) {
+          for (const header of getReferencedBreakingChanges(codeBlock.value)) {
+            referencedBreakingChanges.add(header);
+          }
+        }
+
         // Special chars in YAML strings may break the parser if not surrounded by quotes,
         //  including just causing the parser to read a value as null instead of throwing an error
         //  <https://stackoverflow.com/questions/19109912/yaml-do-i-need-quotes-for-strings-in-yaml>
         if (checkStrings) {
           const possibleStrings = codeBlock.value.matchAll(possibleStringRegex);
 
-          for (const [matchedLine, matchedGroup] of possibleStrings) {
+          for (const { 0: matchedLine, 1: matchedGroup, index } of possibleStrings) {
             const trimmedMatchedGroup = matchedGroup.trim();
+            const matchedGroupStart = index + matchedLine.length - matchedGroup.length;
             const isMatchedGroupInsideQuotes =
               (trimmedMatchedGroup.startsWith('"') && trimmedMatchedGroup.endsWith('"')) ||
               (trimmedMatchedGroup.startsWith("'") && trimmedMatchedGroup.endsWith("'"));
@@ -220,9 +834,17 @@ async function main(
             const isLastCharNonAlphaNumeric =
               trimmedMatchedGroup.at(-1)?.match(nonAlphaNumericDotRegex) !== null;
             if (isFirstCharNonAlphaNumeric || isLastCharNonAlphaNumeric) {
-              console.warn(
+              const location = report(
+                filepath,
+                documentText,
+                contentRange(matchedGroupStart, matchedGroupStart + matchedGroup.length),
+                'warning',
+                'string',
+                `Possible string value starts/ends with a non-alphanumeric character: ${matchedGroup}`,
+              );
+              logWarning(
                 'Warning occurred while parsing Markdown document:\n\n' +
-                  `'${filepath}'\n\n` +
+                  `'${location}'\n\n` +
                   'Possible string value starts/ends with a non-alphanumeric character.\n\n' +
                   'This might cause issues when parsing the YAML (might not throw an error)\n\n' +
                   'Matched group:\n\n' +
@@ -242,15 +864,24 @@ async function main(
         if (checkDescriptions) {
           const possibleDescription = codeBlock.value.matchAll(possibleDescriptionRegex);
 
-          for (const [matchedLine, matchedGroup] of possibleDescription) {
+          for (const { 0: matchedLine, 1: matchedGroup, index } of possibleDescription) {
             const trimmedMatchedGroup = matchedGroup.trim();
+            const matchedGroupStart = index + matchedLine.length - matchedGroup.length;
             const isMatchedGroupInsideQuotes =
               trimmedMatchedGroup.startsWith('"') && trimmedMatchedGroup.endsWith('"');
 
             if (!isMatchedGroupInsideQuotes) {
-              console.error(
+              const location = report(
+                filepath,
+                documentText,
+                contentRange(matchedGroupStart, matchedGroupStart + matchedGroup.length),
+                'error',
+                'description',
+                `Possible description field is not surrounded by double quotes: ${matchedGroup}`,
+              );
+              logError(
                 'Error occurred while parsing Markdown document:\n\n' +
-                  `'${filepath}'\n\n` +
+                  `'${location}'\n\n` +
                   'Possible description field is not surrounded by double quotes.\n\n' +
                   'This might cause issues when parsing the YAML (might not throw an error)\n\n' +
                   'Matched group:\n\n' +
@@ -269,9 +900,17 @@ async function main(
 
         if (checkPlacement) {
           if (possibleHistoryBlock.previousNode?.type !== 'heading') {
-            console.error(
+            const location = report(
+              filepath,
+              documentText,
+              blockRange(),
+              'error',
+              'placement',
+              'API history block must be preceded by a heading',
+            );
+            logError(
               'Error occurred while parsing Markdown document:\n\n' +
-                `'${filepath}'\n\n` +
+                `'${location}'\n\n` +
                 'API history block must be preceded by a heading\n\n' +
                 'API history block:\n\n' +
                 `${possibleHistoryBlock.value}\n`,
@@ -281,17 +920,46 @@ async function main(
           }
         }
 
-        let unsafeHistoryDocument = null;
-        let unsafeHistory = null;
+        const unsafeHistoryDocument = parseDocument(codeBlock.value);
+
+        // Syntax errors don't throw, they're collected on the document
+        if (unsafeHistoryDocument.errors.length) {
+          for (const error of unsafeHistoryDocument.errors) {
+            const location = report(
+              filepath,
+              documentText,
+              contentRange(...error.pos),
+              'error',
+              'yaml',
+              `(YAML) ${error}`,
+            );
+            logError(
+              'Error occurred while parsing Markdown document:\n\n' +
+                `'${location}'\n\n` +
+                `(YAML) ${error}\n\n` +
+                'API history block:\n\n' +
+                `${possibleHistoryBlock.value}\n`,
+            );
+            errorCounter++;
+          }
+          continue;
+        }
 
-        try {
-          unsafeHistoryDocument = parseDocument(codeBlock.value);
-          unsafeHistory = unsafeHistoryDocument.toJS();
-        } catch (error: any) {
-          console.error(
+        const unsafeHistory = unsafeHistoryDocument.toJS();
+
+        if (disallowComments && hasComments(unsafeHistoryDocument)) {
+          const location = report(
+            filepath,
+            documentText,
+            blockRange(),
+            'error',
+            'comments',
+            'API History cannot contain YAML comments.',
+          );
+          logError(
             'Error occurred while parsing Markdown document:\n\n' +
-              `'${filepath}'\n\n` +
-              `(YAML) ${error}\n\n` +
+              `'${location}'\n\n` +
+              'API History cannot contain YAML comments.\n\n' +
               'API history block:\n\n' +
               `${possibleHistoryBlock.value}\n`,
           );
@@ -299,41 +967,49 @@ async function main(
           continue;
         }
 
-        if (disallowComments) {
-          let commentFound = false;
-
-          yamlVisit(unsafeHistoryDocument, (_, node) => {
-            if (
-              typeof node === 'object' &&
-              node !== null &&
-              ('comment' in node || 'commentBefore' in node)
-            ) {
-              commentFound = true;
-              return yamlVisit.BREAK;
-            }
-          });
-
-          if (commentFound) {
-            console.error(
+        if (pullRequests !== null) {
+          for (const { path, message } of checkPullRequests(
+            unsafeHistory,
+            pullRequests,
+            backportOf,
+          )) {
+            const location = report(
+              filepath,
+              documentText,
+              nodeRange(unsafeHistoryDocument.getIn(path, true)),
+              'error',
+              'pull-request',
+              message,
+            );
+            logError(
               'Error occurred while parsing Markdown document:\n\n' +
-                `'${filepath}'\n\n` +
-                'API History cannot contain YAML comments.\n\n' +
+                `'${location}'\n\n` +
+                `${message}\n\n` +
                 'API history block:\n\n' +
                 `${possibleHistoryBlock.value}\n`,
             );
             errorCounter++;
-            continue;
           }
         }
 
-        if (!schema || validateAgainstSchema === null) continue;
-
         const isValid = validateAgainstSchema(unsafeHistory);
 
         if (!isValid) {
-          console.error(
+          const locations = (validateAgainstSchema.errors ?? []).map((error) => {
+            const node = getSchemaErrorNode(unsafeHistoryDocument, error);
+
+            return report(
+              filepath,
+              documentText,
+              nodeRange(node),
+              'error',
+              'schema',
+              `Error validating YAML: ${error.instancePath || '/'} ${error.message}`,
+            );
+          });
+          logError(
             'Error occurred while parsing Markdown document:\n\n' +
-              `'${filepath}'\n\n` +
+              `'${locations.join("', '")}'\n\n` +
               'Error validating YAML\n\n' +
               'Validation errors:\n\n' +
               `${JSON.stringify(validateAgainstSchema.errors, null, 4)}\n\n` +
@@ -346,27 +1022,86 @@ async function main(
           continue;
         }
 
+        for (const { path, message } of checkSemantics(
+          unsafeHistory as ApiHistory,
+          pullRequests === null,
+        )) {
+          const location = report(
+            filepath,
+            documentText,
+            nodeRange(unsafeHistoryDocument.getIn(path, true)),
+            'error',
+            'semantics',
+            message,
+          );
+          logError(
+            'Error occurred while parsing Markdown document:\n\n' +
+              `'${location}'\n\n` +
+              `${message}\n\n` +
+              'API history block:\n\n' +
+              `${possibleHistoryBlock.value}\n`,
+          );
+          errorCounter++;
+        }
+
         if (breakingChangesFile && breakingChangesFileHeadingIds !== null) {
           const safeHistory = unsafeHistory as ApiHistory;
 
-          const breakingChangeHeaders: string[] = [];
+          for (const section of ['changes', 'deprecated'] as const) {
+            for (const [idx, change] of (safeHistory[section] ?? []).entries()) {
+              const header = change['breaking-changes-header'];
 
-          const changesAndDeprecations = [
-            ...(safeHistory.changes ?? []),
-            ...(safeHistory.deprecated ?? []),
-          ];
-
-          for (const change of changesAndDeprecations) {
-            if (change['breaking-changes-header']) {
-              breakingChangeHeaders.push(change['breaking-changes-header']);
-            }
-          }
+              if (!header) continue;
 
-          for (const header of breakingChangeHeaders) {
-            if (!breakingChangesFileHeadingIds.includes(header)) {
-              console.error(
+              const node = unsafeHistoryDocument.getIn(
+                [section, idx, 'breaking-changes-header'],
+                true,
+              );
+              const plannedBreakingChange = plannedBreakingChanges.find(({ id }) => id === header);
+              const pullRequestNumber = pullRequestUrlRegex.exec(change['pr-url'])?.[3];
+              const releases = pullRequestNumber
+                ? pullRequests?.[pullRequestNumber]?.releases
+                : undefined;
+
+              // Pull requests for a breaking change should be released in the version it's planned for
+              if (
+                checkBreakingChangesReferences &&
+                plannedBreakingChange &&
+                releases &&
+                !releases.some((release) => release.split('.')[0] === plannedBreakingChange.version)
+              ) {
+                const message = `Breaking change ${header} is planned for ${plannedBreakingChange.version}.0, but pull request #${pullRequestNumber} wasn't released in it`;
+                const location = report(
+                  filepath,
+                  documentText,
+                  nodeRange(node),
+                  'error',
+                  'breaking-changes-header',
+                  message,
+                );
+                logError(
+                  'Error occurred while parsing Markdown document:\n\n' +
+                    `'${location}'\n\n` +
+                    `${message}\n\n` +
+                    'API history block:\n\n' +
+                    `${possibleHistoryBlock.value}\n`,
+                );
+                errorCounter++;
+              }
+
+              if (breakingChangesFileHeadingIds.includes(header)) continue;
+
+              const location = report(
+                filepath,
+                documentText,
+                nodeRange(node),
+                'error',
+                'breaking-changes-header',
+                `Couldn't find the following breaking changes header in ${breakingChangesFile}: ${header}`,
+              );
+              logError(
                 'Error occurred while parsing Markdown document:\n\n' +
-                  `'${filepath}'\n\n` +
+                  `'${location}'\n\n` +
                   "Couldn't find the following breaking changes header:\n\n" +
                   `'${header}'\n\n` +
                   `in this breaking changes file:\n\n` +
@@ -381,36 +1116,152 @@ async function main(
           }
         }
 
-        // ? Maybe collect all api history and export it to a single file for future use.
+        const headingId = headingIds.get(
+          possibleHistoryBlock.previousNode?.position?.start.offset ?? -1,
+        );
+
+        if (output && headingId) {
+          apiHistory[filepath] ??= {};
+          apiHistory[filepath][headingId] = unsafeHistory as ApiHistory;
+        }
       }
 
-      // ? Maybe replace user YAML with result of <https://eemeli.org/yaml/#tostring-options> for consistent style (but not in CI)
+      if (reportUnrecognized) {
+        for (const comment of findUnrecognizedCodeBlockComments(documentText)) {
+          const location = report(
+            filepath,
+            documentText,
+            [comment.position!.start.offset!, comment.position!.end.offset!],
+            'warning',
+            'unrecognized',
+            "HTML comment contains a code block which isn't an API history block",
+          );
+          logWarning(
+            'Warning occurred while parsing Markdown document:\n\n' +
+              `'${location}'\n\n` +
+              "HTML comment contains a code block which isn't an API history block\n\n" +
+              'HTML comment:\n\n' +
+              `${comment.value}\n`,
+          );
+          warningCounter++;
+        }
+      }
+
+      if (requiresHistory) {
+        const apiHeadings = findApiHeadings(documentText);
+        const apiHeadingIds = getHeadingIds(documentText);
+        let coveredCounter = 0;
+
+        for (const { node, hasHistory } of apiHeadings) {
+          const headingRange: OffsetRange = [
+            node.position!.start.offset!,
+            node.position!.end.offset!,
+          ];
+          const headingText = documentText.slice(...headingRange);
+
+          if (hasHistory) {
+            coveredCounter++;
+            continue;
+          }
+
+          if (allowlist.has(`${filepath}#${apiHeadingIds.get(headingRange[0])}`)) continue;
+
+          const location = report(
+            filepath,
+            documentText,
+            headingRange,
+            'error',
+            'missing',
+            `API heading is missing an API history block: ${headingText}`,
+          );
+          logError(
+            'Error occurred while parsing Markdown document:\n\n' +
+              `'${location}'\n\n` +
+              'API heading is missing an API history block\n\n' +
+              'API heading:\n\n' +
+              `${headingText}\n`,
+          );
+          errorCounter++;
+        }
+
+        // Allowlisted headings still count against the coverage, to track migrating them
+        if (format === 'text') {
+          const coverage = apiHeadings.length
+            ? Math.floor((coveredCounter / apiHeadings.length) * 100)
+            : 100;
+          console.log(
+            `API history coverage for ${filepath}: ${coveredCounter}/${apiHeadings.length} API heading(s) (${coverage}%)`,
+          );
+        }
+      }
+
+      if (documentText !== originalText) {
+        if (format === 'text') {
+          console.log(`File has changed: ${filepath}`);
+        }
+        await writeFile(uri.fsPath, documentText);
+      }
+    }
+
+    if (breakingChangesFile && checkBreakingChangesReferences) {
+      const breakingChangesFilepath = relative(workspaceRoot, breakingChangesFile);
+
+      for (const { id, range } of plannedBreakingChanges) {
+        if (referencedBreakingChanges.has(id) || breakingChangesAllowlistEntries.has(id)) continue;
+
+        const location = report(
+          breakingChangesFilepath,
+          breakingChangesText,
+          range,
+          'error',
+          'breaking-changes-reference',
+          `Breaking change isn't referenced by any API history: ${id}`,
+        );
+        logError(
+          'Error occurred while parsing breaking changes file:\n\n' +
+            `'${location}'\n\n` +
+            "Breaking change isn't referenced by any API history, add its heading ID as the " +
+            "'breaking-changes-header' of the change or deprecation, or add it to the allowlist:\n\n" +
+            `${id}\n`,
+        );
+        errorCounter++;
+      }
+    }
+
+    if (output) {
+      await writeFile(output, `${JSON.stringify(apiHistory, null, 2)}\n`);
     }
   } catch (error) {
     errorCounter++;
     console.error('Error occurred while linting:\n', error);
   }
 
-  return { historyBlockCounter, documentCounter, errorCounter, warningCounter };
+  return { historyBlockCounter, documentCounter, errorCounter, warningCounter, diagnostics };
 }
 
-function parseCommandLine() {
+function parseCommandLine(args: string[]) {
   const showUsage = (): never => {
     console.log(
       'Usage: lint-roller-markdown-api-history [--root <dir>] <globs>' +
         ' [-h|--help]' +
-        ' [--check-placement] [--breaking-changes-file <path>] [--check-strings] [--check-descriptions] [--disallow-comments]' +
-        ' [--schema <path>]' +
-        ' [--ignore <globs>] [--ignore-path <path>]',
+        ' [--fix] [--check-placement] [--breaking-changes-file <path>] [--check-breaking-changes-references] [--breaking-changes-allowlist <path>] [--pull-request-index <path>] [--check-strings] [--check-descriptions] [--disallow-comments]' +
+        ' [--schema <path>] [--output <path>] [--report-unrecognized] [--require-history <globs>] [--history-allowlist <path>]' +
+        ' [--ignore <globs>] [--ignore-path <path>]' +
+        ' [--format <text|json|sarif|github>]',
     );
     process.exit(1);
   };
 
   try {
     const opts = parseArgs({
+      args,
       allowNegative: true,
       allowPositionals: true,
       options: {
+        fix: {
+          type: 'boolean',
+          default: false,
+        },
         'check-placement': {
           type: 'boolean',
           default: true,
@@ -427,29 +1278,50 @@ function parseCommandLine() {
           type: 'boolean',
           default: true,
         },
-        root: {
+        schema: {
           type: 'string',
         },
-        ignore: {
+        output: {
           type: 'string',
-          multiple: true,
         },
-        'ignore-path': {
+        'breaking-changes-file': {
           type: 'string',
         },
-        schema: {
+        'check-breaking-changes-references': {
+          type: 'boolean',
+          default: false,
+        },
+        'breaking-changes-allowlist': {
           type: 'string',
         },
-        'breaking-changes-file': {
+        'pull-request-index': {
           type: 'string',
         },
-        help: {
+        'report-unrecognized': {
           type: 'boolean',
+          default: false,
+        },
+        'require-history': {
+          type: 'string',
+          multiple: true,
         },
+        'history-allowlist': {
+          type: 'string',
+        },
+        ...COMMON_OPTIONS,
       },
     });
 
     if (opts.values.help || !opts.positionals.length) return showUsage();
+    if (!isOutputFormat(opts.values.format)) return showUsage();
+    if (opts.values['history-allowlist'] && !opts.values['require-history']) return showUsage();
+    if (
+      (opts.values['check-breaking-changes-references'] ||
+        opts.values['breaking-changes-allowlist']) &&
+      !opts.values['breaking-changes-file']
+    ) {
+      return showUsage();
+    }
 
     return opts;
   } catch {
@@ -457,64 +1329,80 @@ function parseCommandLine() {
   }
 }
 
-async function init() {
+export async function run(args: string[], workspace?: DocsWorkspace) {
   try {
-    const { values: opts, positionals } = parseCommandLine();
+    const { values: opts, positionals } = parseCommandLine(args);
+    const { format, workspaceRoot, ignoreGlobs } = resolveCommonOptions(opts);
 
-    if (!opts.root) {
-      opts.root = '.';
+    if (opts.schema) {
+      opts.schema = resolve(process.cwd(), opts.schema);
     }
 
-    if (opts.ignore) {
-      opts.ignore = Array.isArray(opts.ignore) ? opts.ignore : [opts.ignore];
-    } else {
-      opts.ignore = [];
+    if (opts['breaking-changes-file']) {
+      opts['breaking-changes-file'] = resolve(process.cwd(), opts['breaking-changes-file']);
     }
 
-    if (opts['ignore-path']) {
-      const ignores = await readFile(resolve(opts['ignore-path']), { encoding: 'utf-8' });
+    if (opts['breaking-changes-allowlist']) {
+      opts['breaking-changes-allowlist'] = resolve(
+        process.cwd(),
+        opts['breaking-changes-allowlist'],
+      );
+    }
 
-      for (const ignore of ignores.split('\n')) {
-        opts.ignore.push(ignore.trimEnd());
-      }
+    if (opts['pull-request-index']) {
+      opts['pull-request-index'] = resolve(process.cwd(), opts['pull-request-index']);
     }
 
-    if (opts.schema) {
-      opts.schema = resolve(process.cwd(), opts.schema);
+    if (opts.output) {
+      opts.output = resolve(process.cwd(), opts.output);
     }
 
-    if (opts['breaking-changes-file']) {
-      opts['breaking-changes-file'] = resolve(process.cwd(), opts['breaking-changes-file']);
+    if (opts['history-allowlist']) {
+      opts['history-allowlist'] = resolve(process.cwd(), opts['history-allowlist']);
     }
 
-    const { historyBlockCounter, documentCounter, errorCounter, warningCounter } = await main(
-      resolve(process.cwd(), opts.root),
-      positionals,
-      {
+    const { historyBlockCounter, documentCounter, errorCounter, warningCounter, diagnostics } =
+      await main(workspaceRoot, positionals, {
+        fix: opts.fix,
         checkPlacement: opts['check-placement'],
         breakingChangesFile: opts['breaking-changes-file'],
+        checkBreakingChangesReferences: opts['check-breaking-changes-references'],
+        breakingChangesAllowlist: opts['breaking-changes-allowlist'],
+        pullRequestIndex: opts['pull-request-index'],
         checkStrings: opts['check-strings'],
         checkDescriptions: opts['check-descriptions'],
         disallowComments: opts['disallow-comments'],
-        ignoreGlobs: opts.ignore,
+        format,
+        ignoreGlobs,
         schema: opts.schema,
-      },
-    );
+        output: opts.output,
+        reportUnrecognized: opts['report-unrecognized'],
+        requireHistory: opts['require-history'],
+        historyAllowlist: opts['history-allowlist'],
+        workspace,
+      });
 
-    console.log(
-      `Processed ${historyBlockCounter} API history block(s) in ${documentCounter} document(s) with ${errorCounter} error(s) and ${warningCounter} warning(s).`,
-    );
+    if (format === 'text') {
+      console.log(
+        `Processed ${historyBlockCounter} API history block(s) in ${documentCounter} document(s) with ${errorCounter} error(s) and ${warningCounter} warning(s).`,
+      );
+    } else {
+      console.log(
+        formatDiagnostics(diagnostics, format, {
+          toolName: 'lint-roller-markdown-api-history',
+          root: workspaceRoot,
+          rules: RULE_DESCRIPTIONS,
+        }),
+      );
+    }
 
-    if (errorCounter > 0) process.exit(1);
+    return errorCounter > 0;
   } catch (error: any) {
     console.error(`Error(s) occurred while initializing 'lint-markdown-api-history':\n${error}`);
-    process.exit(1);
+    return true;
   }
 }
 
-if ((await realpath(process.argv[1])) === fileURLToPath(import.meta.url)) {
-  init().catch((error) => {
-    console.error(error);
-    process.exit(1);
-  });
+if (await isMainModule(import.meta.url)) {
+  runCommand(run, process.argv.slice(2));
 }
@@ -0,0 +1,371 @@
+#!/usr/bin/env node
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { parseArgs } from 'node:util';
+
+import { fromMarkdown } from 'mdast-util-from-markdown';
+import { toString } from 'mdast-util-to-string';
+import ts from 'typescript';
+import { visit } from 'unist-util-visit';
+import { URI } from 'vscode-uri';
+
+import type { Heading } from 'mdast';
+import type { Position } from 'unist';
+
+import {
+  isMainModule,
+  resolveCommonOptions,
+  runCommand,
+  CommandOptions,
+  COMMON_OPTIONS,
+} from '../lib/cli.js';
+import { formatDiagnostics, isOutputFormat, LintDiagnostic } from '../lib/diagnostics.js';
+import { DocsWorkspace } from '../lib/markdown.js';
+
+type Options = CommandOptions;
+
+type ApiKind = 'method' | 'property' | 'event' | 'static method' | 'static property';
+
+const API_KINDS: ApiKind[] = ['method', 'property', 'event', 'static method', 'static property'];
+
+// Methods for listening to events, which are declared once per event
+const EVENT_METHODS = ['on', 'once', 'addListener', 'removeListener', 'off'];
+
+// "Class: BrowserWindow extends BaseWindow"
+const classHeadingRegex = /^Class: (\w+)/;
+// "Event: 'page-title-updated'"
+const eventHeadingRegex = /^Event: '([^']+)'/;
+// "win.setBounds(bounds[, animate])" or "win.id"
+const apiHeadingRegex = /^(\w+)\.(\w+)(\(.*\))?$/s;
+
+interface Typings {
+  // Members of each class and interface, keyed by kind and then name
+  types: Map<string, Map<ApiKind, Set<string>>>;
+  // Constants exported by modules, like 'app', with the type they're an
+  // instance of, or the class if they're the class itself (like 'webContents')
+  exports: Map<string, { type: string; isStatic: boolean }>;
+}
+
+interface DocumentedApi {
+  type: string;
+  kind: ApiKind;
+  name: string;
+  file: string;
+  position: Position;
+}
+
+// Before TypeScript 4.8 there's no getModifiers(), the modifiers are a property of the node
+function isStatic(node: ts.Node) {
+  const modifiers =
+    'getModifiers' in ts
+      ? ts.canHaveModifiers(node)
+        ? ts.getModifiers(node)
+        : undefined
+      : (node as { modifiers?: readonly ts.Modifier[] }).modifiers;
+
+  return modifiers?.some(({ kind }) => kind === ts.SyntaxKind.StaticKeyword) ?? false;
+}
+
+function getTypeName(type: ts.TypeNode | undefined) {
+  if (!type) return undefined;
+
+  const name = ts.isTypeReferenceNode(type)
+    ? type.typeName
+    : ts.isTypeQueryNode(type)
+      ? type.exprName
+      : undefined;
+
+  return name && (ts.isIdentifier(name) ? name.text : name.right.text);
+}
+
+// Only the syntax of the typings is needed, so they're parsed without type checking
+function parseTypings(filename: string): Typings {
+  const sourceFile = ts.createSourceFile(
+    filename,
+    fs.readFileSync(filename, 'utf-8'),
+    ts.ScriptTarget.Latest,
+  );
+  const types: Typings['types'] = new Map();
+  const exports: Typings['exports'] = new Map();
+
+  const visitNode = (node: ts.Node) => {
+    if ((ts.isClassDeclaration(node) || ts.isInterfaceDeclaration(node)) && node.name) {
+      // Declarations with the same name are merged, like TypeScript does
+      const members =
+        types.get(node.name.text) ?? new Map(API_KINDS.map((kind) => [kind, new Set()]));
+      types.set(node.name.text, members);
+
+      for (const member of node.members as ts.NodeArray<ts.Node>) {
+        const name =
+          (ts.isMethodDeclaration(member) ||
+            ts.isMethodSignature(member) ||
+            ts.isPropertyDeclaration(member) ||
+            ts.isPropertySignature(member)) &&
+          ts.isIdentifier(member.name)
+            ? member.name.text
+            : undefined;
+
+        if (!name) continue;
+
+        if (ts.isMethodDeclaration(member) || ts.isMethodSignature(member)) {
+          const [event] = member.parameters;
+
+          if (
+            EVENT_METHODS.includes(name) &&
+            event?.type &&
+            ts.isLiteralTypeNode(event.type) &&
+            ts.isStringLiteral(event.type.literal)
+          ) {
+            members.get('event')!.add(event.type.literal.text);
+          } else {
+            members.get(isStatic(member) ? 'static method' : 'method')!.add(name);
+          }
+        } else {
+          members.get(isStatic(member) ? 'static property' : 'property')!.add(name);
+        }
+      }
+    } else if (ts.isVariableDeclaration(node) && ts.isIdentifier(node.name)) {
+      const type = getTypeName(node.type);
+
+      if (type) {
+        exports.set(node.name.text, {
+          type,
+          isStatic: !!node.type && ts.isTypeQueryNode(node.type),
+        });
+      }
+    }
+
+    ts.forEachChild(node, visitNode);
+  };
+
+  visitNode(sourceFile);
+
+  return { types, exports };
+}
+
+// Finds the APIs documented by each heading, using the 'Class: ' headings and the
+// title of the document to know which class or module the API headings are for
+function findDocumentedApis(content: string, file: string, { exports }: Typings) {
+  const apis: DocumentedApi[] = [];
+  // Headings which introduce a class or module, keyed by the type name
+  const owners = new Map<string, Position>();
+  let module: { type: string; isStatic: boolean } | undefined;
+  let currentClass: { type: string; depth: number } | undefined;
+
+  visit(fromMarkdown(content), 'heading', (node: Heading) => {
+    const text = toString(node);
+    const position = node.position!;
+
+    if (currentClass && node.depth <= currentClass.depth) {
+      currentClass = undefined;
+    }
+
+    if (node.depth === 1) {
+      module = exports.get(text.trim());
+
+      if (module && !owners.has(module.type)) {
+        owners.set(module.type, position);
+      }
+      return;
+    }
+
+    const classMatch = classHeadingRegex.exec(text);
+
+    if (classMatch) {
+      currentClass = { type: classMatch[1], depth: node.depth };
+
+      if (!owners.has(currentClass.type)) {
+        owners.set(currentClass.type, position);
+      }
+      return;
+    }
+
+    const eventMatch = eventHeadingRegex.exec(text);
+
+    if (eventMatch) {
+      const type = currentClass?.type ?? module?.type;
+
+      if (type) {
+        apis.push({ type, kind: 'event', name: eventMatch[1], file, position });
+      }
+      return;
+    }
+
+    // The API is in the first inline code in the heading, other
+    // text in the heading is for things like platform tags
+    const [firstChild] = node.children;
+    const apiMatch =
+      firstChild?.type === 'inlineCode' ? apiHeadingRegex.exec(firstChild.value) : null;
+
+    if (!apiMatch) return;
+
+    const [, prefix, name, parameters] = apiMatch;
+    let type: string;
+    let isStaticApi: boolean;
+
+    if (currentClass && prefix === currentClass.type) {
+      // BrowserWindow.getAllWindows()
+      type = currentClass.type;
+      isStaticApi = true;
+    } else if (exports.has(prefix)) {
+      // app.quit() or webContents.getAllWebContents()
+      ({ type, isStatic: isStaticApi } = exports.get(prefix)!);
+    } else if (currentClass) {
+      // Instances are named by convention in the docs, like win.setBounds() for BrowserWindow
+      type = currentClass.type;
+      isStaticApi = false;
+    } else {
+      return;
+    }
+
+    const kind = parameters ? 'method' : 'property';
+    apis.push({ type, kind: isStaticApi ? `static ${kind}` : kind, name, file, position });
+  });
+
+  return { apis, owners };
+}
+
+function describeApi({ type, kind, name }: Pick<DocumentedApi, 'type' | 'kind' | 'name'>) {
+  return `${kind[0].toUpperCase()}${kind.slice(1)} '${name}' of ${type}`;
+}
+
+export async function main(
+  workspaceRoot: string,
+  globs: string[],
+  typingsFilename: string,
+  { format = 'text', ignoreGlobs = [], workspace }: Options,
+) {
+  workspace ??= new DocsWorkspace(workspaceRoot, globs, ignoreGlobs);
+  const typings = parseTypings(typingsFilename);
+  const typingsName = path.basename(typingsFilename);
+  const diagnostics: LintDiagnostic[] = [];
+  const documentedApis: DocumentedApi[] = [];
+  const owners = new Map<string, { file: string; position: Position }>();
+
+  const report = (file: string, position: Position, ruleId: string, message: string) => {
+    if (format === 'text') {
+      console.log(`${file}:${position.start.line}:${position.start.column}: ${message}`);
+    }
+    diagnostics.push({
+      file,
+      line: position.start.line,
+      column: position.start.column,
+      endLine: position.end.line,
+      endColumn: position.end.column,
+      severity: 'error',
+      ruleId,
+      message,
+    });
+  };
+
+  for (const document of await workspace.getAllMarkdownDocuments()) {
+    const uri = URI.parse(document.uri);
+    const filepath = workspace.getWorkspaceRelativePath(uri);
+    const { apis, owners: documentOwners } = findDocumentedApis(
+      document.getText(),
+      filepath,
+      typings,
+    );
+
+    documentedApis.push(...apis);
+    for (const [type, position] of documentOwners) {
+      if (!owners.has(type)) {
+        owners.set(type, { file: filepath, position });
+      }
+    }
+  }
+
+  for (const api of documentedApis) {
+    if (!typings.types.get(api.type)?.get(api.kind)?.has(api.name)) {
+      report(
+        api.file,
+        api.position,
+        'api-typings/not-declared',
+        `${describeApi(api)} is documented but isn't declared in ${typingsName}`,
+      );
+    }
+  }
+
+  // Only classes and modules which are documented are checked for undocumented
+  // APIs, since the typings also declare types like structures and options
+  for (const [type, { file, position }] of owners) {
+    for (const [kind, names] of typings.types.get(type) ?? []) {
+      for (const name of names) {
+        const isDocumented = documentedApis.some(
+          (api) => api.type === type && api.kind === kind && api.name === name,
+        );
+
+        if (!isDocumented) {
+          report(
+            file,
+            position,
+            'api-typings/not-documented',
+            `${describeApi({ type, kind, name })} is declared in ${typingsName} but isn't documented`,
+          );
+        }
+      }
+    }
+  }
+
+  if (format !== 'text') {
+    console.log(
+      formatDiagnostics(diagnostics, format, {
+        toolName: 'lint-roller-markdown-api-typings',
+        root: workspaceRoot,
+        rules: {
+          'api-typings/not-declared': 'Documented APIs must be declared in the typings',
+          'api-typings/not-documented': 'APIs declared in the typings must be documented',
+        },
+      }),
+    );
+  }
+
+  return diagnostics.length > 0;
+}
+
+function parseCommandLine(args: string[]) {
+  const showUsage = (): never => {
+    console.log(
+      'Usage: lint-roller-markdown-api-typings [--root <dir>] --typings <path> <globs> [-h|--help]' +
+        '[--ignore <globs>] [--ignore-path <path>] [--format <text|json|sarif|github>]',
+    );
+    process.exit(1);
+  };
+
+  try {
+    const opts = parseArgs({
+      args,
+      allowPositionals: true,
+      options: {
+        typings: {
+          type: 'string',
+        },
+        ...COMMON_OPTIONS,
+      },
+    });
+
+    if (opts.values.help || !opts.positionals.length) return showUsage();
+    if (!opts.values.typings) return showUsage();
+    if (!isOutputFormat(opts.values.format)) return showUsage();
+
+    return opts;
+  } catch {
+    return showUsage();
+  }
+}
+
+export async function run(args: string[], workspace?: DocsWorkspace) {
+  const { values: opts, positionals } = parseCommandLine(args);
+  const { format, workspaceRoot, ignoreGlobs } = resolveCommonOptions(opts);
+
+  return main(workspaceRoot, positionals, path.resolve(process.cwd(), opts.typings!), {
+    format,
+    ignoreGlobs,
+    workspace,
+  });
+}
+
+if (await isMainModule(import.meta.url)) {
+  runCommand(run, process.argv.slice(2));
+}
@@ -0,0 +1,244 @@
+#!/usr/bin/env node
+
+import { parseArgs } from 'node:util';
+import { Worker } from 'node:worker_threads';
+
+import { URI } from 'vscode-uri';
+
+import {
+  isMainModule,
+  resolveCommonOptions,
+  runCommand,
+  CommandOptions,
+  COMMON_OPTIONS,
+} from '../lib/cli.js';
+import { formatDiagnostics, isOutputFormat, LintDiagnostic } from '../lib/diagnostics.js';
+import { getCodeBlocks, DocsWorkspace } from '../lib/markdown.js';
+
+import type { DoctestWorkerData } from '../lib/doctest-worker.js';
+
+interface Options extends CommandOptions {
+  // Maximum time a code block can run for, in milliseconds
+  timeout?: number;
+}
+
+const DEFAULT_TIMEOUT = 5000;
+
+const JAVASCRIPT_LANGUAGES = ['javascript', 'js', 'cjs'];
+const TYPESCRIPT_LANGUAGES = ['typescript', 'ts', 'cts'];
+
+// Matches "// => value" comments, each of which is a line of expected output
+const expectedOutputRegex = /\/\/ => (.*)$/;
+
+function normalizeOutput(output: string) {
+  return output
+    .split(/\r?\n/)
+    .map((line) => line.trimEnd())
+    .join('\n')
+    .trim();
+}
+
+async function transpileTypeScript(code: string) {
+  // TypeScript is an optional peer dependency, so only load it if needed
+  const { default: ts } = await import('typescript');
+
+  return ts.transpileModule(code, {
+    compilerOptions: {
+      module: ts.ModuleKind.CommonJS,
+      target: ts.ScriptTarget.ES2022,
+    },
+  }).outputText;
+}
+
+class TimeoutError extends Error {}
+
+// Runs the code in a worker, returning what it logged to the console once the
+// worker exits, which is after any timers and promises the code left pending
+function runCode(code: string, filename: string, lineOffset: number, timeout: number) {
+  return new Promise<string>((resolve, reject) => {
+    const output: string[] = [];
+    const workerData: DoctestWorkerData = { code, filename, lineOffset };
+    // The worker's stdout and stderr aren't piped to the process, only the console is captured
+    const worker = new Worker(new URL('../lib/doctest-worker.js', import.meta.url), {
+      workerData,
+      stdout: true,
+      stderr: true,
+    });
+    let error: unknown;
+
+    const timer = setTimeout(() => {
+      error = new TimeoutError();
+      void worker.terminate();
+    }, timeout);
+
+    worker.on('message', (line: string) => output.push(line));
+    worker.on('error', (workerError) => {
+      error ??= workerError;
+    });
+    worker.on('exit', (exitCode) => {
+      clearTimeout(timer);
+
+      if (error === undefined && exitCode !== 0) {
+        error = new Error(`Process exited with code ${exitCode}`);
+      }
+
+      if (error !== undefined) {
+        reject(error);
+      } else {
+        resolve(output.join('\n'));
+      }
+    });
+  });
+}
+
+export async function main(
+  workspaceRoot: string,
+  globs: string[],
+  { format = 'text', ignoreGlobs = [], timeout = DEFAULT_TIMEOUT, workspace }: Options,
+) {
+  workspace ??= new DocsWorkspace(workspaceRoot, globs, ignoreGlobs);
+  const diagnostics: LintDiagnostic[] = [];
+
+  for (const document of await workspace.getAllMarkdownDocuments()) {
+    const uri = URI.parse(document.uri);
+    const filepath = workspace.getWorkspaceRelativePath(uri);
+    const codeBlocks = await getCodeBlocks(document.getText());
+
+    for (const [idx, codeBlock] of codeBlocks.entries()) {
+      const lang = codeBlock.lang?.toLowerCase() ?? '';
+
+      // Only blocks with @run in their info string are run
+      if (
+        !codeBlock.meta?.split(' ').includes('@run') ||
+        ![...JAVASCRIPT_LANGUAGES, ...TYPESCRIPT_LANGUAGES].includes(lang)
+      ) {
+        continue;
+      }
+
+      const line = codeBlock.position!.start.line;
+      const column = codeBlock.position!.start.column;
+
+      const report = (ruleId: string, message: string) => {
+        if (format === 'text') {
+          console.log(`${filepath}:${line}:${column}: ${message}`);
+        }
+        diagnostics.push({
+          file: filepath,
+          line,
+          column,
+          endLine: line,
+          endColumn: column,
+          severity: 'error',
+          ruleId,
+          message,
+        });
+      };
+
+      // Expected output is either a following ```text output code
+      // block, or "// => value" comments in the code block itself
+      const nextBlock = codeBlocks[idx + 1];
+      const expectedLines = codeBlock.value
+        .split('\n')
+        .map((codeLine) => codeLine.match(expectedOutputRegex)?.[1])
+        .filter((value): value is string => value !== undefined);
+      let expected: string | undefined;
+
+      if (nextBlock?.lang === 'text' && nextBlock.meta?.split(' ').includes('output')) {
+        expected = nextBlock.value;
+      } else if (expectedLines.length) {
+        expected = expectedLines.join('\n');
+      }
+
+      let output: string;
+
+      try {
+        const code = TYPESCRIPT_LANGUAGES.includes(lang)
+          ? await transpileTypeScript(codeBlock.value)
+          : codeBlock.value;
+
+        // Code starts on the line after the opening code fence
+        output = await runCode(code, uri.fsPath, line, timeout);
+      } catch (error) {
+        const message =
+          error instanceof TimeoutError
+            ? `Code block timed out after ${timeout}ms`
+            : `Code block threw an error: ${error instanceof Error ? error.message : String(error)}`;
+        report('doctest/error', message);
+        continue;
+      }
+
+      if (expected !== undefined && normalizeOutput(output) !== normalizeOutput(expected)) {
+        report(
+          'doctest/output',
+          `Output doesn't match the expected output\n` +
+            `Expected:\n${normalizeOutput(expected)}\n` +
+            `Actual:\n${normalizeOutput(output)}`,
+        );
+      }
+    }
+  }
+
+  if (format !== 'text') {
+    console.log(
+      formatDiagnostics(diagnostics, format, {
+        toolName: 'lint-roller-markdown-doctest',
+        root: workspaceRoot,
+        rules: {
+          'doctest/error': 'Code blocks must run without throwing an error',
+          'doctest/output': 'Output of code blocks must match the expected output',
+        },
+      }),
+    );
+  }
+
+  return diagnostics.length > 0;
+}
+
+function parseCommandLine(args: string[]) {
+  const showUsage = (): never => {
+    console.log(
+      'Usage: lint-roller-markdown-doctest [--root <dir>] <globs> [-h|--help]' +
+        '[--ignore <globs>] [--ignore-path <path>] [--timeout <ms>] [--format <text|json|sarif|github>]',
+    );
+    process.exit(1);
+  };
+
+  try {
+    const opts = parseArgs({
+      args,
+      allowPositionals: true,
+      options: {
+        timeout: {
+          type: 'string',
+        },
+        ...COMMON_OPTIONS,
+      },
+    });
+
+    if (opts.values.help || !opts.positionals.length) return showUsage();
+    if (!isOutputFormat(opts.values.format)) return showUsage();
+    if (opts.values.timeout !== undefined && !/^[1-9]\d*$/.test(opts.values.timeout)) {
+      return showUsage();
+    }
+
+    return opts;
+  } catch {
+    return showUsage();
+  }
+}
+
+export async function run(args: string[], workspace?: DocsWorkspace) {
+  const { values: opts, positionals } = parseCommandLine(args);
+  const { format, workspaceRoot, ignoreGlobs } = resolveCommonOptions(opts);
+
+  return main(workspaceRoot, positionals, {
+    format,
+    ignoreGlobs,
+    timeout: opts.timeout !== undefined ? parseInt(opts.timeout) : undefined,
+    workspace,
+  });
+}
+
+if (await isMainModule(import.meta.url)) {
+  runCommand(run, process.argv.slice(2));
+}
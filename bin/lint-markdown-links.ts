@@ -1,20 +1,42 @@
 #!/usr/bin/env node
 
-import * as fs from 'node:fs';
 import * as path from 'node:path';
-import { fileURLToPath } from 'node:url';
 import { parseArgs } from 'node:util';
 
 import {
   createLanguageService,
+  DiagnosticCode,
   DiagnosticLevel,
   DiagnosticOptions,
   ILogger,
   LogLevel,
 } from '@dsanders11/vscode-markdown-languageservice';
-import { CancellationTokenSource } from 'vscode-languageserver';
+import picomatch from 'picomatch';
+import { CancellationTokenSource, Range } from 'vscode-languageserver';
 import { URI } from 'vscode-uri';
 
+import {
+  isMainModule,
+  resolveCommonOptions,
+  runCommand,
+  CommandOptions,
+  COMMON_OPTIONS,
+} from '../lib/cli.js';
+import {
+  formatDiagnostics,
+  isOutputFormat,
+  DiagnosticSeverity,
+  LintDiagnostic,
+} from '../lib/diagnostics.js';
+import { FetchScheduler, FetchSchedulerOptions } from '../lib/fetch-scheduler.js';
+import { loadConfig, LintRollerConfig, LintRollerLinksConfig } from '../lib/helpers.js';
+import {
+  isSuccessfulEntry,
+  DEFAULT_CACHE_LOCATION,
+  DEFAULT_CACHE_TTL,
+  LinkCache,
+  LinkCacheEntry,
+} from '../lib/link-cache.js';
 import { DocsWorkspace, MarkdownLinkComputer, MarkdownParser } from '../lib/markdown.js';
 
 class NoOpLogger implements ILogger {
@@ -23,7 +45,37 @@ class NoOpLogger implements ILogger {
   log(): void {}
 }
 
-const diagnosticOptions: DiagnosticOptions = {
+// Rule IDs for the diagnostics from the language service
+const RULE_IDS: Record<DiagnosticCode, string> = {
+  [DiagnosticCode.link_noSuchReferences]: 'broken-reference',
+  [DiagnosticCode.link_noSuchHeaderInOwnFile]: 'broken-fragment',
+  [DiagnosticCode.link_noSuchFile]: 'broken-file',
+  [DiagnosticCode.link_noSuchHeaderInFile]: 'broken-fragment',
+  [DiagnosticCode.link_unusedDefinition]: 'unused-definition',
+  [DiagnosticCode.link_duplicateDefinition]: 'duplicate-definition',
+};
+
+const RULE_DESCRIPTIONS: Record<string, string> = {
+  'absolute-link': 'Links should be relative rather than absolute',
+  'broken-external-link': "External link couldn't be fetched successfully",
+  'broken-file': "Link points to a file which doesn't exist",
+  'broken-fragment': "Link points to a heading which doesn't exist",
+  'broken-reference': "Link uses a reference definition which doesn't exist",
+  'duplicate-definition': 'Link reference definition is defined more than once',
+  'redirected-link': 'External link redirects to a different URL',
+  'unused-definition': 'Link reference definition is never used',
+};
+
+function rangeToPosition(range: Range) {
+  return {
+    line: range.start.line + 1,
+    column: range.start.character + 1,
+    endLine: range.end.line + 1,
+    endColumn: range.end.character + 1,
+  };
+}
+
+const defaultDiagnosticOptions: DiagnosticOptions = {
   ignoreLinks: [],
   validateDuplicateLinkDefinitions: DiagnosticLevel.error,
   validateFileLinks: DiagnosticLevel.error,
@@ -33,57 +85,126 @@ const diagnosticOptions: DiagnosticOptions = {
   validateUnusedLinkDefinitions: DiagnosticLevel.error,
 };
 
-async function fetchExternalLink(link: string, checkRedirects = false) {
+const DEFAULT_HEADERS: Record<string, string> = {
+  'user-agent':
+    'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/122.0.6261.39 Electron/29.0.0 Safari/537.36',
+  accept: 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
+  'accept-language': 'en-US,en;q=0.5',
+  'accept-encoding': 'gzip, deflate, br',
+};
+
+// npmjs.com rejects automated requests, so skip it unless configured otherwise
+const DEFAULT_SKIP_PATTERNS = ['*.npmjs.com'];
+
+// Patterns containing a scheme are globs for the full URL,
+// anything else is a glob for the hostname of the URL
+function matchesLinkPattern(url: URL, patterns: string[]) {
+  return patterns.some((pattern) =>
+    picomatch.isMatch(pattern.includes('://') ? url.toString() : url.hostname, pattern),
+  );
+}
+
+async function fetchExternalLink(
+  link: string,
+  scheduler: FetchScheduler,
+  headers: Record<string, string>,
+): Promise<LinkCacheEntry> {
+  try {
+    const response = await scheduler.fetch(link, { headers });
+
+    return {
+      status: response.status,
+      statusText: response.statusText,
+      url: response.url,
+      redirected: response.redirected,
+      timestamp: Date.now(),
+    };
+  } catch {
+    return { timestamp: Date.now() };
+  }
+}
+
+interface ExternalLinkProblem {
+  ruleId: string;
+  severity: DiagnosticSeverity;
+  message: string;
+}
+
+async function checkExternalLink(
+  link: string,
+  scheduler: FetchScheduler,
+  config: LintRollerLinksConfig,
+  log: typeof console.log,
+  checkRedirects = false,
+  cache?: LinkCache,
+): Promise<ExternalLinkProblem | undefined> {
   const url = new URL(link);
-  if (url.hostname.endsWith('.npmjs.com')) {
-    console.log('Skipping npmjs.com link check', link);
-    return true;
+  if (matchesLinkPattern(url, config.skip ?? DEFAULT_SKIP_PATTERNS)) {
+    log('Skipping link check', link);
+    return undefined;
   }
 
-  try {
-    const response = await fetch(link, {
-      headers: {
-        'user-agent':
-          'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/122.0.6261.39 Electron/29.0.0 Safari/537.36',
-        accept: 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
-        'accept-language': 'en-US,en;q=0.5',
-        'accept-encoding': 'gzip, deflate, br',
-      },
-    });
-    if (response.status !== 200) {
-      console.log('Broken link', link, response.status, response.statusText);
-    } else {
-      if (checkRedirects && response.redirected) {
-        const wwwUrl = new URL(link);
-        wwwUrl.hostname = `www.${wwwUrl.hostname}`;
-
-        // For now cut down on noise to find meaningful redirects
-        const wwwRedirect = wwwUrl.toString() === response.url;
-        const trailingSlashRedirect = `${link}/` === response.url;
-
-        if (!wwwRedirect && !trailingSlashRedirect) {
-          console.log('Link redirection', link, '->', response.url);
-        }
+  let result = cache?.get(link);
+
+  if (!result) {
+    const headers = { ...DEFAULT_HEADERS };
+
+    for (const extraHeaders of config.headers ?? []) {
+      if (matchesLinkPattern(url, extraHeaders.patterns)) {
+        Object.assign(headers, extraHeaders.headers);
       }
+    }
 
-      return true;
+    result = await fetchExternalLink(link, scheduler, headers);
+    cache?.set(link, result);
+  }
+
+  if (!isSuccessfulEntry(result)) {
+    // Links matching a warn pattern are reported, but don't fail the run
+    const isWarning = matchesLinkPattern(url, config.warn ?? []);
+    const details = result.status === undefined ? [] : [result.status, result.statusText];
+
+    log(isWarning ? 'Broken link (warning)' : 'Broken link', link, ...details);
+    return {
+      ruleId: 'broken-external-link',
+      severity: isWarning ? 'warning' : 'error',
+      message: ['Broken link:', link, ...details].join(' '),
+    };
+  }
+
+  if (checkRedirects && result.redirected) {
+    const wwwUrl = new URL(link);
+    wwwUrl.hostname = `www.${wwwUrl.hostname}`;
+
+    // For now cut down on noise to find meaningful redirects
+    const wwwRedirect = wwwUrl.toString() === result.url;
+    const trailingSlashRedirect = `${link}/` === result.url;
+
+    if (!wwwRedirect && !trailingSlashRedirect) {
+      log('Link redirection', link, '->', result.url);
+      return {
+        ruleId: 'redirected-link',
+        severity: 'warning',
+        message: `Link redirection: ${link} -> ${result.url}`,
+      };
     }
-  } catch {
-    console.log('Broken link', link);
   }
 
-  return false;
+  return undefined;
 }
 
-interface Options {
+interface Options extends CommandOptions {
   allowAbsoluteLinks?: boolean;
   fetchExternalLinks?: boolean;
   checkRedirects?: boolean;
-  ignoreGlobs?: string[];
   resourceRoot?: string;
+  cacheLocation?: string;
+  cacheTtl?: number;
+  fetchOptions?: FetchSchedulerOptions;
+  config?: LintRollerConfig;
 }
 
-async function main(
+export async function main(
   workspaceRoot: string,
   globs: string[],
   {
@@ -92,9 +213,24 @@ async function main(
     checkRedirects = false,
     ignoreGlobs = [],
     resourceRoot,
+    cacheLocation,
+    cacheTtl = DEFAULT_CACHE_TTL,
+    fetchOptions = {},
+    config = undefined,
+    format = 'text',
+    workspace,
   }: Options,
 ) {
-  const workspace = new DocsWorkspace(workspaceRoot, globs, ignoreGlobs, resourceRoot);
+  const log = format === 'text' ? console.log : () => {};
+
+  const linksConfig = config?.['markdown-links'] ?? {};
+  const diagnosticOptions: DiagnosticOptions = {
+    ...defaultDiagnosticOptions,
+    // Skipped links are ignored when validating internal links as well
+    ignoreLinks: linksConfig.skip ?? [],
+  };
+
+  workspace ??= new DocsWorkspace(workspaceRoot, globs, ignoreGlobs, resourceRoot);
   const parser = new MarkdownParser();
   const linkComputer = new MarkdownLinkComputer(workspace, resourceRoot);
   const languageService = createLanguageService({
@@ -105,14 +241,16 @@ async function main(
   });
 
   const cts = new CancellationTokenSource();
-  let errors = false;
+  const lintDiagnostics: LintDiagnostic[] = [];
 
-  const externalLinks = new Set<string>();
+  // Each external link is only fetched once, but is reported at every location it's used
+  const externalLinks = new Map<string, { file: string; range: Range }[]>();
 
   try {
     // Collect diagnostics for all documents in the workspace
     for (const document of await workspace.getAllMarkdownDocuments()) {
       const absoluteLinks = new Set<any>();
+      const filepath = path.relative(URI.file(workspace.root).path, URI.parse(document.uri).path);
 
       for (let link of await languageService.getDocumentLinks(document, cts.token)) {
         if (link.target === undefined) {
@@ -128,7 +266,9 @@ async function main(
           link.target.startsWith('http') &&
           new URL(link.target).hostname !== 'localhost'
         ) {
-          externalLinks.add(link.target);
+          const locations = externalLinks.get(link.target) ?? [];
+          locations.push({ file: filepath, range: link.range });
+          externalLinks.set(link.target, locations);
         }
       }
       const diagnostics = await languageService.computeDiagnostics(
@@ -138,26 +278,29 @@ async function main(
       );
 
       if (diagnostics.length || absoluteLinks.size) {
-        console.log(
-          'File Location:',
-          path.relative(URI.file(workspace.root).path, URI.parse(document.uri).path),
-        );
+        log('File Location:', filepath);
       }
 
       for (const diagnostic of diagnostics) {
-        console.log(
-          `\tBroken link on line ${diagnostic.range.start.line + 1}:`,
-          diagnostic.message,
-        );
-        errors = true;
+        log(`\tBroken link on line ${diagnostic.range.start.line + 1}:`, diagnostic.message);
+        lintDiagnostics.push({
+          file: filepath,
+          ...rangeToPosition(diagnostic.range),
+          severity: 'error',
+          ruleId: RULE_IDS[diagnostic.code as DiagnosticCode] ?? String(diagnostic.code),
+          message: diagnostic.message,
+        });
       }
 
       for (const link of absoluteLinks) {
-        console.log(
-          `\tAbsolute link on line ${link.range.start.line + 1}:`,
-          link.data.source.hrefText,
-        );
-        errors = true;
+        log(`\tAbsolute link on line ${link.range.start.line + 1}:`, link.data.source.hrefText);
+        lintDiagnostics.push({
+          file: filepath,
+          ...rangeToPosition(link.range),
+          severity: 'error',
+          ruleId: 'absolute-link',
+          message: `Absolute link: ${link.data.source.hrefText}`,
+        });
       }
     }
   } finally {
@@ -165,27 +308,66 @@ async function main(
   }
 
   if (fetchExternalLinks) {
-    const externalLinkStates = await Promise.all(
-      Array.from(externalLinks).map((link) => fetchExternalLink(link, checkRedirects)),
-    );
+    const cache = cacheLocation ? LinkCache.load(cacheLocation, cacheTtl) : undefined;
+    const scheduler = new FetchScheduler(fetchOptions);
+
+    try {
+      await Promise.all(
+        Array.from(externalLinks).map(async ([link, locations]) => {
+          const problem = await checkExternalLink(
+            link,
+            scheduler,
+            linksConfig,
+            log,
+            checkRedirects,
+            cache,
+          );
+
+          if (problem) {
+            for (const { file, range } of locations) {
+              lintDiagnostics.push({ file, ...rangeToPosition(range), ...problem });
+            }
+          }
+        }),
+      );
+    } finally {
+      cache?.save();
+    }
+  }
 
-    errors = errors || !externalLinkStates.every((x) => x);
+  if (format !== 'text') {
+    console.log(
+      formatDiagnostics(lintDiagnostics, format, {
+        toolName: 'lint-roller-markdown-links',
+        root: workspaceRoot,
+        rules: RULE_DESCRIPTIONS,
+      }),
+    );
   }
 
-  return errors;
+  return lintDiagnostics.some(({ severity }) => severity === 'error');
+}
+
+function parseIntegerOption(value: string | undefined) {
+  return value !== undefined ? parseInt(value) : undefined;
 }
 
-function parseCommandLine() {
+function parseCommandLine(args: string[]) {
   const showUsage = (): never => {
     console.log(
       'Usage: lint-roller-markdown-links [--root <dir>] <globs> [-h|--help] [--allow-absolute-links]' +
-        '[--fetch-external-links] [--check-redirects] [--ignore <globs>] [--resource-root <dir>]',
+        '[--fetch-external-links] [--check-redirects] [--ignore <globs>] [--resource-root <dir>]' +
+        '[--cache-location <path>] [--cache-ttl <seconds>] [--no-cache]' +
+        '[--fetch-concurrency <n>] [--fetch-host-concurrency <n>] [--fetch-retries <n>]' +
+        '[--fetch-timeout <ms>] [--config <path>] [--format <text|json|sarif|github>]',
     );
     process.exit(1);
   };
 
   try {
     const opts = parseArgs({
+      args,
+      allowNegative: true,
       allowPositionals: true,
       options: {
         'allow-absolute-links': {
@@ -197,26 +379,53 @@ function parseCommandLine() {
         'check-redirects': {
           type: 'boolean',
         },
-        root: {
+        cache: {
+          type: 'boolean',
+          default: true,
+        },
+        'cache-location': {
           type: 'string',
         },
-        'resource-root': {
+        'cache-ttl': {
           type: 'string',
         },
-        ignore: {
+        'fetch-concurrency': {
           type: 'string',
-          multiple: true,
         },
-        'ignore-path': {
+        'fetch-host-concurrency': {
           type: 'string',
         },
-        help: {
-          type: 'boolean',
+        'fetch-retries': {
+          type: 'string',
+        },
+        'fetch-timeout': {
+          type: 'string',
+        },
+        config: {
+          type: 'string',
         },
+        'resource-root': {
+          type: 'string',
+        },
+        ...COMMON_OPTIONS,
       },
     });
 
     if (opts.values.help || !opts.positionals.length) return showUsage();
+    if (!isOutputFormat(opts.values.format)) return showUsage();
+
+    const integerOptions = [
+      'cache-ttl',
+      'fetch-concurrency',
+      'fetch-host-concurrency',
+      'fetch-retries',
+      'fetch-timeout',
+    ] as const;
+
+    for (const option of integerOptions) {
+      const value = opts.values[option];
+      if (value !== undefined && !/^\d+$/.test(value)) return showUsage();
+    }
 
     return opts;
   } catch {
@@ -224,41 +433,38 @@ function parseCommandLine() {
   }
 }
 
-if ((await fs.promises.realpath(process.argv[1])) === fileURLToPath(import.meta.url)) {
-  const { values: opts, positionals } = parseCommandLine();
-
-  if (!opts.root) {
-    opts.root = '.';
-  }
-
-  if (opts.ignore) {
-    opts.ignore = Array.isArray(opts.ignore) ? opts.ignore : [opts.ignore];
-  } else {
-    opts.ignore = [];
-  }
-
-  if (opts['ignore-path']) {
-    const ignores = fs.readFileSync(path.resolve(opts['ignore-path']), { encoding: 'utf-8' });
+export async function run(args: string[], workspace?: DocsWorkspace) {
+  const { values: opts, positionals } = parseCommandLine(args);
+  const { format, workspaceRoot, ignoreGlobs } = resolveCommonOptions(opts);
 
-    for (const ignore of ignores.split('\n')) {
-      opts.ignore.push(ignore.trimEnd());
-    }
-  }
+  const config = loadConfig(
+    opts.config ? path.resolve(opts.config) : path.resolve('.lint-roller.json'),
+  );
 
-  main(path.resolve(process.cwd(), opts.root), positionals, {
+  return main(workspaceRoot, positionals, {
+    config,
+    format,
     allowAbsoluteLinks: opts['allow-absolute-links'],
     fetchExternalLinks: opts['fetch-external-links'],
     checkRedirects: opts['check-redirects'],
-    ignoreGlobs: opts.ignore,
+    ignoreGlobs,
     resourceRoot: opts['resource-root']
       ? path.resolve(process.cwd(), opts['resource-root'])
       : undefined,
-  })
-    .then((errors) => {
-      if (errors) process.exit(1);
-    })
-    .catch((error) => {
-      console.error(error);
-      process.exit(1);
-    });
+    cacheLocation: opts.cache
+      ? path.resolve(process.cwd(), opts['cache-location'] ?? DEFAULT_CACHE_LOCATION)
+      : undefined,
+    cacheTtl: parseIntegerOption(opts['cache-ttl']),
+    fetchOptions: {
+      concurrency: parseIntegerOption(opts['fetch-concurrency']),
+      hostConcurrency: parseIntegerOption(opts['fetch-host-concurrency']),
+      retries: parseIntegerOption(opts['fetch-retries']),
+      timeout: parseIntegerOption(opts['fetch-timeout']),
+    },
+    workspace,
+  });
+}
+
+if (await isMainModule(import.meta.url)) {
+  runCommand(run, process.argv.slice(2));
 }
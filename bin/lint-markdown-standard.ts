@@ -1,13 +1,19 @@
 #!/usr/bin/env node
 
 import * as fs from 'node:fs';
-import * as path from 'node:path';
-import { fileURLToPath } from 'node:url';
 import { parseArgs } from 'node:util';
 
 import { TextDocument, TextEdit, Range } from 'vscode-languageserver-textdocument';
 import { URI } from 'vscode-uri';
 
+import {
+  isMainModule,
+  resolveCommonOptions,
+  runCommand,
+  CommandOptions,
+  COMMON_OPTIONS,
+} from '../lib/cli.js';
+import { formatDiagnostics, isOutputFormat, LintDiagnostic } from '../lib/diagnostics.js';
 import {
   dynamicImport,
   removeParensWrappingOrphanedObject,
@@ -15,17 +21,19 @@ import {
 } from '../lib/helpers.js';
 import { getCodeBlocks, DocsWorkspace } from '../lib/markdown.js';
 
-interface Options {
+interface Options extends CommandOptions {
   fix?: boolean;
-  ignoreGlobs?: string[];
   semi?: boolean;
 }
 
 interface LintMessage {
-  ruleId: string;
+  ruleId: string | null;
+  severity: number;
   message: string;
   line: number;
   column: number;
+  endLine?: number;
+  endColumn?: number;
 }
 
 interface LintResult {
@@ -45,14 +53,17 @@ const DISABLED_RULES = [
   'n/no-callback-literal',
 ];
 
-async function main(
+export async function main(
   workspaceRoot: string,
   globs: string[],
-  { fix = false, ignoreGlobs = [], semi = false }: Options,
+  { fix = false, format = 'text', ignoreGlobs = [], semi = false, workspace }: Options,
 ) {
   const { default: standard } = await dynamicImport('standard');
 
-  const workspace = new DocsWorkspace(workspaceRoot, globs, ignoreGlobs);
+  const log = format === 'text' ? console.log : () => {};
+  const diagnostics: LintDiagnostic[] = [];
+
+  workspace ??= new DocsWorkspace(workspaceRoot, globs, ignoreGlobs);
 
   let lastFilePath: string | undefined;
   let totalErrors = 0;
@@ -71,14 +82,25 @@ async function main(
         totalErrors += 1;
 
         if (filepath !== lastFilePath) {
-          console.log(`\n   ${filepath}`);
+          log(`\n   ${filepath}`);
           lastFilePath = filepath;
         }
 
         const line = codeBlock.position!.start.line;
         const column = codeBlock.position!.start.column;
         const lineInfo = `${line}:${column}: `.padEnd(10);
-        console.log(`         ${lineInfo}Code block language identifier should be all lowercase`);
+        const message = 'Code block language identifier should be all lowercase';
+        log(`         ${lineInfo}${message}`);
+        diagnostics.push({
+          file: filepath,
+          line,
+          column,
+          endLine: line,
+          endColumn: column,
+          severity: 'error',
+          ruleId: 'standard/lowercase-language',
+          message,
+        });
       }
 
       // Skip blocks with @nolint in their info string
@@ -109,14 +131,28 @@ async function main(
 
         for (const message of result.messages) {
           if (filepath !== lastFilePath) {
-            console.log(`\n   ${filepath}`);
+            log(`\n   ${filepath}`);
             lastFilePath = filepath;
           }
 
-          const line = codeBlock.position!.start.line - 1;
+          // Lines are offset by the eslint comments at the start of the text
+          const lineOffset = codeBlock.position!.start.line - eslintComments.length;
           const indent = codeBlock.position!.start.column - 1;
-          const lineInfo = `${line + message.line}:${indent + message.column}: `.padEnd(10);
-          console.log(`         ${lineInfo}${message.message}`);
+          const line = lineOffset + message.line;
+          const column = indent + message.column;
+          const lineInfo = `${line}:${column}: `.padEnd(10);
+          log(`         ${lineInfo}${message.message}`);
+          diagnostics.push({
+            file: filepath,
+            line,
+            column,
+            endLine: message.endLine !== undefined ? lineOffset + message.endLine : line,
+            endColumn: message.endColumn !== undefined ? indent + message.endColumn : column,
+            severity: message.severity === 2 ? 'error' : 'warning',
+            // Parsing errors don't have a rule ID
+            ruleId: `standard/${message.ruleId ?? 'parsing-error'}`,
+            message: message.message,
+          });
         }
 
         if (fix && result.output) {
@@ -156,27 +192,40 @@ async function main(
     }
 
     if (fix && changes.length) {
-      console.log(`File has changed: ${workspace.getWorkspaceRelativePath(uri)}`);
+      log(`File has changed: ${workspace.getWorkspaceRelativePath(uri)}`);
       fs.writeFileSync(uri.fsPath, TextDocument.applyEdits(document, changes));
     }
   }
 
-  console.log(`\nThere are ${totalErrors} errors in '${workspaceRoot}'`);
+  if (format === 'text') {
+    console.log(`\nThere are ${totalErrors} errors in '${workspaceRoot}'`);
+  } else {
+    console.log(
+      formatDiagnostics(diagnostics, format, {
+        toolName: 'lint-roller-markdown-standard',
+        root: workspaceRoot,
+        rules: {
+          'standard/lowercase-language': 'Code block language identifiers should be all lowercase',
+        },
+      }),
+    );
+  }
 
   return totalErrors > 0;
 }
 
-function parseCommandLine() {
+function parseCommandLine(args: string[]) {
   const showUsage = (): never => {
     console.log(
       'Usage: lint-roller-markdown-standard [--root <dir>] <globs> [-h|--help] [--fix]' +
-        '[--ignore <globs>] [--ignore-path <path>] [--semi]',
+        '[--ignore <globs>] [--ignore-path <path>] [--semi] [--format <text|json|sarif|github>]',
     );
     process.exit(1);
   };
 
   try {
     const opts = parseArgs({
+      args,
       allowPositionals: true,
       options: {
         fix: {
@@ -185,23 +234,12 @@ function parseCommandLine() {
         semi: {
           type: 'boolean',
         },
-        root: {
-          type: 'string',
-        },
-        ignore: {
-          type: 'string',
-          multiple: true,
-        },
-        'ignore-path': {
-          type: 'string',
-        },
-        help: {
-          type: 'boolean',
-        },
+        ...COMMON_OPTIONS,
       },
     });
 
     if (opts.values.help || !opts.positionals.length) return showUsage();
+    if (!isOutputFormat(opts.values.format)) return showUsage();
 
     return opts;
   } catch {
@@ -209,37 +247,19 @@ function parseCommandLine() {
   }
 }
 
-if ((await fs.promises.realpath(process.argv[1])) === fileURLToPath(import.meta.url)) {
-  const { values: opts, positionals } = parseCommandLine();
+export async function run(args: string[], workspace?: DocsWorkspace) {
+  const { values: opts, positionals } = parseCommandLine(args);
+  const { format, workspaceRoot, ignoreGlobs } = resolveCommonOptions(opts);
 
-  if (!opts.root) {
-    opts.root = '.';
-  }
-
-  if (opts.ignore) {
-    opts.ignore = Array.isArray(opts.ignore) ? opts.ignore : [opts.ignore];
-  } else {
-    opts.ignore = [];
-  }
-
-  if (opts['ignore-path']) {
-    const ignores = fs.readFileSync(path.resolve(opts['ignore-path']), { encoding: 'utf-8' });
-
-    for (const ignore of ignores.split('\n')) {
-      opts.ignore.push(ignore.trimEnd());
-    }
-  }
-
-  main(path.resolve(process.cwd(), opts.root), positionals, {
+  return main(workspaceRoot, positionals, {
     fix: opts.fix,
-    ignoreGlobs: opts.ignore,
+    format,
+    ignoreGlobs,
     semi: opts.semi,
-  })
-    .then((errors) => {
-      if (errors) process.exit(1);
-    })
-    .catch((error) => {
-      console.error(error);
-      process.exit(1);
-    });
+    workspace,
+  });
+}
+
+if (await isMainModule(import.meta.url)) {
+  runCommand(run, process.argv.slice(2));
 }
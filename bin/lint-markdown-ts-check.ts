@@ -2,71 +2,288 @@
 
 import * as crypto from 'node:crypto';
 import * as fs from 'node:fs';
-import * as os from 'node:os';
 import * as path from 'node:path';
-import { fileURLToPath } from 'node:url';
 import { parseArgs } from 'node:util';
 
+import ts from 'typescript';
+import { TextDocument, TextEdit } from 'vscode-languageserver-textdocument';
 import { URI } from 'vscode-uri';
 
 import {
-  chunkFilenames,
+  isMainModule,
+  resolveCommonOptions,
+  runCommand,
+  CommandOptions,
+  COMMON_OPTIONS,
+} from '../lib/cli.js';
+import { formatDiagnostics, isOutputFormat, LintDiagnostic } from '../lib/diagnostics.js';
+import {
   findCurlyBracedDirectives,
   loadConfig,
-  spawnAsync,
   wrapOrphanObjectInParens,
   LintRollerConfig,
 } from '../lib/helpers.js';
 import { getCodeBlocks, DocsWorkspace } from '../lib/markdown.js';
 
-interface Options {
+interface Options extends CommandOptions {
   config?: LintRollerConfig;
-  ignoreGlobs?: string[];
+  fix?: boolean;
 }
 
-async function typeCheckFiles(
-  tempDir: string,
-  filenameMapping: Map<string, string>,
-  filenames: string[],
-  typings: string[],
-) {
-  const pkgPath = fileURLToPath(import.meta.resolve('typescript'));
-  const tscExec = path.join(pkgPath, '..', '..', 'bin', 'tsc');
-  const options = ['--noEmit', '--pretty', '--moduleDetection', 'force'];
-  if (filenames.find((filename) => filename.endsWith('.js'))) {
-    options.push('--checkJs');
-  }
-  const args = [tscExec, ...options, ...typings, ...filenames];
-  const { status, stderr, stdout } = await spawnAsync(process.execPath, args);
+// A file generated for a code block, which only exists in memory
+interface VirtualFile {
+  content: string;
+  // Absolute path of the Markdown file containing the code block
+  document: string;
+  // Position of the code block in the Markdown file, which diagnostics
+  // in declarations generated from the info string are reported at
+  line: number;
+  column: number;
+  // Declarations generated from the info string, which have no
+  // corresponding code in the Markdown file
+  generated?: boolean;
+}
+
+// Code blocks are checked as if they were in this directory, which doesn't exist
+// on disk, so that imports are resolved from the workspace's node_modules
+const VIRTUAL_DIRECTORY = '.lint-roller-ts-check';
+
+const defaultCompilerOptions: ts.CompilerOptions = {
+  checkJs: true,
+  jsx: ts.JsxEmit.Preserve,
+  moduleDetection: ts.ModuleDetectionKind.Force,
+};
+
+// Code blocks are type checked as files with these extensions, keyed by
+// language, so that JSX parsing and ESM vs CommonJS semantics are correct
+const CODE_BLOCK_EXTENSIONS: Record<string, string> = {
+  javascript: 'js',
+  js: 'js',
+  jsx: 'jsx',
+  mjs: 'mjs',
+  cjs: 'cjs',
+  typescript: 'ts',
+  ts: 'ts',
+  tsx: 'tsx',
+  mts: 'mts',
+  cts: 'cts',
+};
+
+// Extensions to use when JavaScript is type checked together with TypeScript
+const TYPESCRIPT_EXTENSIONS: Record<string, string> = {
+  js: 'ts',
+  jsx: 'tsx',
+  mjs: 'mts',
+  cjs: 'cts',
+};
+
+// "No inputs were found in config file", code blocks are the only inputs
+const NO_INPUTS_FOUND_ERROR_CODE = 18003;
+
+// "Unused '@ts-expect-error' directive"
+const UNUSED_EXPECT_ERROR_CODE = 2578;
+
+// "Cannot find module '{0}' or its corresponding type declarations", and the
+// variant suggesting a different moduleResolution setting
+const MODULE_NOT_FOUND_ERROR_CODES = [2307, 2792];
+
+const tsExpectErrorRegex = /\B@ts-expect-error=\[([\d,:]*)\]\B/;
+// "3" or "3:2339", an entry in @ts-expect-error with a 1-based line and optional error code
+const tsExpectErrorEntryRegex = /^[1-9]\d*(?::\d+)?$/;
+
+interface Program {
+  rootNames: string[];
+  options: ts.CompilerOptions;
+  // Code block the options came from, if they're from @ts-options
+  optionsPosition?: CodeUnit['position'];
+}
+
+// Code blocks from a Markdown file which are type checked together
+interface CodeUnit {
+  basename: string;
+  position: Omit<VirtualFile, 'content' | 'generated'>;
+  blocks: {
+    code: string;
+    // Line in the Markdown file which the code starts on
+    line: number;
+    hasImports: boolean;
+    extension: string;
+    types: string;
+  }[];
+  windowTypesFilenames: string[];
+  options: ts.CompilerOptions;
+  optionsPosition?: Omit<VirtualFile, 'content' | 'generated'>;
+  isolate: boolean;
+}
+
+// TypeScript uses forward slashes for file names on all platforms
+function toTsFileName(filename: string) {
+  return filename.split(path.sep).join(path.posix.sep);
+}
+
+function flattenDiagnostics(diagnostics: readonly ts.Diagnostic[]) {
+  return diagnostics
+    .map(({ messageText }) => ts.flattenDiagnosticMessageText(messageText, '\n'))
+    .join('\n');
+}
 
-  if (stderr) {
-    throw new Error(stderr);
+// Compiler options from the config are validated up front, an invalid
+// option is a configuration error rather than a problem in a code block
+function loadCompilerOptions(workspaceRoot: string, config?: LintRollerConfig) {
+  const { compilerOptions, tsconfig, typeRoots, paths } = config?.['markdown-ts-check'] ?? {};
+  let options: ts.CompilerOptions = {};
+
+  if (tsconfig) {
+    const tsconfigPath = path.resolve(workspaceRoot, tsconfig);
+    const { config: json, error } = ts.readConfigFile(tsconfigPath, (fileName) =>
+      ts.sys.readFile(fileName),
+    );
+
+    if (error) {
+      throw new Error(`Could not read ${tsconfig}: ${flattenDiagnostics([error])}`);
+    }
+
+    const parsed = ts.parseJsonConfigFileContent(
+      json,
+      ts.sys,
+      path.dirname(tsconfigPath),
+      undefined,
+      tsconfigPath,
+    );
+    const errors = parsed.errors.filter(({ code }) => code !== NO_INPUTS_FOUND_ERROR_CODE);
+
+    if (errors.length) {
+      throw new Error(`Invalid compiler options in ${tsconfig}: ${flattenDiagnostics(errors)}`);
+    }
+
+    options = parsed.options;
   }
 
-  // Replace the temp file paths with the original source filename
-  let correctedOutput = stdout.replace(
-    new RegExp(
-      `${path.relative(process.cwd(), tempDir)}${path.sep}`.replace(/\\/g, path.posix.sep),
-      'g',
-    ),
-    '',
-  );
+  if (compilerOptions) {
+    const parsed = ts.convertCompilerOptionsFromJson(compilerOptions, workspaceRoot);
+
+    if (parsed.errors.length) {
+      throw new Error(
+        `Invalid compilerOptions in markdown-ts-check config: ${flattenDiagnostics(parsed.errors)}`,
+      );
+    }
+
+    options = { ...options, ...parsed.options };
+  }
 
-  // Strip any @ts-expect-error comments we added
-  correctedOutput = correctedOutput.replace(/ \/\/ @ts-expect-error/g, '');
+  // Paths for module resolution are relative to the root, not the tsconfig.json
+  if (typeRoots || paths) {
+    const parsed = ts.convertCompilerOptionsFromJson({ typeRoots, paths }, workspaceRoot);
 
-  if (correctedOutput.trim()) {
-    for (const [filename, originalFilename] of filenameMapping.entries()) {
-      correctedOutput = correctedOutput.replace(
-        new RegExp(path.basename(filename), 'g'),
-        originalFilename,
+    if (parsed.errors.length) {
+      throw new Error(
+        `Invalid module resolution in markdown-ts-check config: ${flattenDiagnostics(parsed.errors)}`,
       );
     }
 
-    console.log(correctedOutput);
+    options = { ...options, ...parsed.options };
+  }
+
+  return { ...defaultCompilerOptions, ...options, noEmit: true };
+}
+
+// Values in @ts-options={name:value} are JSON, but strings can be left unquoted
+function parseOptionValue(value: string): unknown {
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
+function createCompilerHost(
+  files: Map<string, VirtualFile>,
+  options: ts.CompilerOptions,
+): ts.CompilerHost {
+  const host = ts.createCompilerHost(options);
+
+  // Lib files and typings are used by every program, so only parse them once
+  const sourceFiles = new Map<string, ts.SourceFile | undefined>();
+
+  return {
+    ...host,
+    fileExists: (fileName) => files.has(fileName) || host.fileExists(fileName),
+    readFile: (fileName) => files.get(fileName)?.content ?? host.readFile(fileName),
+    getSourceFile: (fileName, languageVersion, ...args) => {
+      if (!sourceFiles.has(fileName)) {
+        const file = files.get(fileName);
+        sourceFiles.set(
+          fileName,
+          file
+            ? ts.createSourceFile(fileName, file.content, languageVersion)
+            : host.getSourceFile(fileName, languageVersion, ...args),
+        );
+      }
+
+      return sourceFiles.get(fileName);
+    },
+  };
+}
+
+// Twoslash style "// ^? Type" comments, where the caret
+// points at the expression on the line above
+const typeQueryRegex = /^(\s*\/\/\s*)\^\?(.*)$/;
+
+function findNodeAtPosition(sourceFile: ts.SourceFile, position: number): ts.Node {
+  const visit = (node: ts.Node): ts.Node =>
+    ts.forEachChild(node, (child) =>
+      child.getStart(sourceFile) <= position && position < child.getEnd()
+        ? visit(child)
+        : undefined,
+    ) ?? node;
+
+  return visit(sourceFile);
+}
+
+function checkTypeQueries(sourceFile: ts.SourceFile, checker: ts.TypeChecker) {
+  const problems: { start: number; length: number; message: string }[] = [];
+  const lineStarts = sourceFile.getLineStarts();
+  const lines = sourceFile.text.split('\n');
+
+  for (const [idx, text] of lines.entries()) {
+    const match = text.match(typeQueryRegex);
+
+    if (!match || idx === 0) {
+      continue;
+    }
+
+    const column = match[1].length;
+    const start = lineStarts[idx] + column;
+    const expected = match[2].trim();
+
+    if (column >= lines[idx - 1].trimEnd().length) {
+      problems.push({ start, length: 2, message: "Type query doesn't point at any code" });
+      continue;
+    }
+
+    const node = findNodeAtPosition(sourceFile, lineStarts[idx - 1] + column);
+    const actual = checker.typeToString(
+      checker.getTypeAtLocation(node),
+      undefined,
+      ts.TypeFormatFlags.NoTruncation,
+    );
+
+    if (!expected) {
+      problems.push({
+        start,
+        length: 2,
+        message: `Type query has no expected type, found '${actual}'`,
+      });
+    } else if (expected.replace(/\s+/g, ' ') !== actual.replace(/\s+/g, ' ')) {
+      problems.push({
+        start,
+        length: 2 + match[2].trimEnd().length,
+        message: `Expected type '${expected}' but found '${actual}'`,
+      });
+    }
   }
 
-  return status;
+  return problems;
 }
 
 function parseDirectives(directive: string, value: string) {
@@ -75,243 +292,669 @@ function parseDirectives(directive: string, value: string) {
     .filter((parsed): parsed is RegExpMatchArray => parsed !== null);
 }
 
-async function main(
+export async function main(
   workspaceRoot: string,
   globs: string[],
-  { config = undefined, ignoreGlobs = [] }: Options,
+  { config = undefined, fix = false, format = 'text', ignoreGlobs = [], workspace }: Options,
 ) {
-  const workspace = new DocsWorkspace(workspaceRoot, globs, ignoreGlobs);
-  const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'lint-roller-ts-check-'));
+  workspace ??= new DocsWorkspace(workspaceRoot, globs, ignoreGlobs);
+  const virtualDirectory = toTsFileName(path.join(workspaceRoot, VIRTUAL_DIRECTORY));
+  const compilerOptions = loadCompilerOptions(workspaceRoot, config);
+
+  const files = new Map<string, VirtualFile>();
+  const filenames: string[] = [];
+  const isolatedPrograms: Program[] = [];
+  const typings: string[] = [];
+
+  const expectedErrors: { document: string; line: number; indent: number; code: number }[] = [];
+  const fixableBlocks: {
+    document: TextDocument;
+    // Lines of the opening and closing code fences
+    line: number;
+    endLine: number;
+    expectErrors: number[][];
+  }[] = [];
+
+  const diagnostics: LintDiagnostic[] = [];
+  let tsDiagnostics: ts.Diagnostic[] = [];
+
+  let errors = false;
+
+  // Reports a problem with the info string of a code block at its opening code fence
+  const reportBlockDiagnostic = (
+    { document, line, column }: CodeUnit['position'],
+    ruleId: string,
+    message: string,
+  ) => {
+    const diagnostic: LintDiagnostic = {
+      file: path.relative(workspaceRoot, document),
+      line,
+      column,
+      endLine: line,
+      endColumn: column,
+      severity: 'error',
+      ruleId,
+      message,
+    };
+
+    if (format === 'text') {
+      console.log(`${diagnostic.file}:${line}:${column}: ${message}`);
+    }
+    diagnostics.push(diagnostic);
+    errors = true;
+  };
 
-  try {
-    const filenames: string[] = [];
-    const originalFilenames = new Map<string, string>();
-    const isolateFilenames = new Set<string>();
-
-    let ambientModules = '';
-    let errors = false;
-
-    for (const document of await workspace.getAllMarkdownDocuments()) {
-      const uri = URI.parse(document.uri);
-      const filepath = workspace.getWorkspaceRelativePath(uri);
-      const codeBlocks = (await getCodeBlocks(document.getText())).filter(
-        (code) =>
-          code.lang && ['javascript', 'js', 'typescript', 'ts'].includes(code.lang.toLowerCase()),
+  for (const document of await workspace.getAllMarkdownDocuments()) {
+    const uri = URI.parse(document.uri);
+    const filepath = workspace.getWorkspaceRelativePath(uri);
+    const codeBlocks = (await getCodeBlocks(document.getText())).filter(
+      (code) => code.lang && Object.hasOwn(CODE_BLOCK_EXTENSIONS, code.lang.toLowerCase()),
+    );
+
+    const units: CodeUnit[] = [];
+    const groups = new Map<string, CodeUnit>();
+
+    for (const codeBlock of codeBlocks) {
+      const extension = CODE_BLOCK_EXTENSIONS[codeBlock.lang!.toLowerCase()];
+      const line = codeBlock.position!.start.line;
+      const indent = codeBlock.position!.start.column - 1;
+      const position = { document: uri.fsPath, line, column: indent + 1 };
+
+      const tsNoCheck = codeBlock.meta?.split(' ').includes('@ts-nocheck');
+      const tsNoIsolate = codeBlock.meta?.split(' ').includes('@ts-noisolate');
+      const tsExpectErrorEntries = codeBlock.meta?.match(tsExpectErrorRegex)?.[1].split(',');
+      const tsExpectErrors = tsExpectErrorEntries?.map((entry) =>
+        entry.split(':').map((value) => parseInt(value)),
       );
+      const tsTypeLines = codeBlock.meta ? parseDirectives('@ts-type', codeBlock.meta) : [];
+      const tsWindowTypeLines = codeBlock.meta
+        ? parseDirectives('@ts-window-type', codeBlock.meta)
+        : [];
+      const tsOptionLines = codeBlock.meta ? parseDirectives('@ts-options', codeBlock.meta) : [];
+      const tsContinue = codeBlock.meta?.split(' ').includes('@ts-continue');
+      const tsGroup = codeBlock.meta?.match(/\B@ts-group=(\S+)/)?.[1];
+
+      if (tsNoCheck && (tsExpectErrors || tsTypeLines.length || tsWindowTypeLines.length)) {
+        const message =
+          'Code block has both @ts-nocheck and @ts-expect-error/@ts-type/@ts-window-type, they conflict';
+        reportBlockDiagnostic(position, 'ts-check/conflicting-directives', message);
+        continue;
+      }
 
-      for (const codeBlock of codeBlocks) {
-        const isTypeScript =
-          codeBlock.lang && ['typescript', 'ts'].includes(codeBlock.lang.toLowerCase());
-        const line = codeBlock.position!.start.line;
-        const indent = codeBlock.position!.start.column - 1;
-
-        const tsNoCheck = codeBlock.meta?.split(' ').includes('@ts-nocheck');
-        const tsNoIsolate = codeBlock.meta?.split(' ').includes('@ts-noisolate');
-        const tsExpectErrorLines = codeBlock.meta
-          ?.match(/\B@ts-expect-error=\[([\d,]*)\]\B/)?.[1]
-          .split(',')
-          .map((line) => parseInt(line));
-        const tsTypeLines = codeBlock.meta ? parseDirectives('@ts-type', codeBlock.meta) : [];
-        const tsWindowTypeLines = codeBlock.meta
-          ? parseDirectives('@ts-window-type', codeBlock.meta)
-          : [];
-
-        if (tsNoCheck && (tsExpectErrorLines || tsTypeLines.length || tsWindowTypeLines.length)) {
-          console.log(
-            `${filepath}:${line}:${
-              indent + 1
-            }: Code block has both @ts-nocheck and @ts-expect-error/@ts-type/@ts-window-type, they conflict`,
-          );
-          errors = true;
-          continue;
-        }
+      // Skip blocks with @ts-nocheck in their info string
+      if (tsNoCheck) {
+        continue;
+      }
+
+      // Skip empty code blocks
+      if (!codeBlock.value.trim()) {
+        continue;
+      }
+
+      const invalidExpectErrorEntries = (tsExpectErrorEntries ?? []).filter(
+        (entry) => !tsExpectErrorEntryRegex.test(entry),
+      );
 
-        // Skip blocks with @ts-nocheck in their info string
-        if (tsNoCheck) {
-          continue;
+      if (invalidExpectErrorEntries.length) {
+        for (const entry of invalidExpectErrorEntries) {
+          const message = `Invalid @ts-expect-error entry '${entry}', expected a line or a line and an error code, like 3 or 3:2339`;
+          reportBlockDiagnostic(position, 'ts-check/invalid-expect-error', message);
         }
+        continue;
+      }
+
+      // Blocks can have @ts-options={name:value} in their info
+      // string to override a compiler option for that block
+      const blockOptions = ts.convertCompilerOptionsFromJson(
+        Object.fromEntries(tsOptionLines.map((option) => [option[1], parseOptionValue(option[2])])),
+        workspaceRoot,
+      );
 
-        // Skip empty code blocks
-        if (!codeBlock.value.trim()) {
-          continue;
+      if (blockOptions.errors.length) {
+        for (const error of blockOptions.errors) {
+          const message = `Invalid @ts-options: ${flattenDiagnostics([error])}`;
+          reportBlockDiagnostic(position, 'ts-check/invalid-options', message);
         }
+        continue;
+      }
 
-        const codeLines = codeBlock.value.split('\n');
-        let insertedInitialLine = false;
-        let types = '';
-        let windowTypes = '';
-
-        const insertComment = (comment: string, line: number) => {
-          // Inserting additional lines will make the tsc output
-          // incorrect which would be a pain to manually adjust,
-          // and there is no @ts-expect-error-line, so tack the
-          // comment on to the end of the previous line - looks
-          // ugly but we never have to see it since it's in a temp
-          // file. The first line of the file is an edge case where
-          // an insertion is necessary, so take that into account
-          if (line === 1) {
-            codeLines.unshift(comment);
-            insertedInitialLine = true;
+      const codeLines = codeBlock.value.split('\n');
+      let insertedInitialLine = false;
+
+      const insertComment = (comment: string, line: number) => {
+        // Inserting additional lines will make the diagnostic
+        // positions incorrect which would be a pain to manually
+        // adjust, and there is no @ts-expect-error-line, so tack
+        // the comment on to the end of the previous line - looks
+        // ugly but we never have to see it since it's only in
+        // memory. The first line of the file is an edge case where
+        // an insertion is necessary, so take that into account
+        if (line === 1) {
+          codeLines.unshift(comment);
+          insertedInitialLine = true;
+        } else {
+          const offset = insertedInitialLine ? 1 : 2;
+          const codeLine = codeLines[line - offset];
+          // If the line is already a comment, fully replace it,
+          // otherwise tsc won't pick up the inserted comment
+          if (codeLine.match(/^\s*\/\/\s/)) {
+            codeLines[line - offset] = comment;
           } else {
-            const offset = insertedInitialLine ? 1 : 2;
-            const codeLine = codeLines[line - offset];
-            // If the line is already a comment, fully replace it,
-            // otherwise tsc won't pick up the inserted comment
-            if (codeLine.match(/^\s*\/\/\s/)) {
-              codeLines[line - offset] = comment;
-            } else {
-              codeLines[line - offset] = `${codeLine} ${comment}`;
-            }
+            codeLines[line - offset] = `${codeLine} ${comment}`;
           }
+        }
+      };
+
+      // Blocks can have @ts-expect-error=[1,10,50] in their info string
+      // (1-based lines) to insert an "// @ts-expect-error" comment before
+      // specified lines, in order to ignore specific lines (like
+      // requires of extra modules) without skipping the whole block.
+      // An error code can be given as well, like @ts-expect-error=[10:2339],
+      // in which case the line must have an error with that code
+      for (const [errorLine, code] of tsExpectErrors ?? []) {
+        if (code === undefined) {
+          insertComment('// @ts-expect-error', errorLine);
+        } else {
+          expectedErrors.push({ document: uri.fsPath, line: line + errorLine, indent, code });
+        }
+      }
+
+      if (fix) {
+        fixableBlocks.push({
+          document,
+          line,
+          endLine: codeBlock.position!.end.line,
+          expectErrors: tsExpectErrors ?? [],
+        });
+      }
+
+      // Indent the lines if necessary so that diagnostic columns are accurate
+      const code = wrapOrphanObjectInParens(
+        codeLines
+          .map((line) => (line.length ? line.padStart(line.length + indent) : line))
+          .join('\n'),
+      );
+
+      // Filename is unique since it is the name of the original Markdown
+      // file, with the starting line number of the codeblock appended
+      const basename = `${filepath
+        .replace(new RegExp(path.sep.replace(/\\/g, '\\\\'), 'g'), '-')
+        .replace(/\./g, '-')}-${line}`;
+
+      // Blocks can have @ts-group=name in their info string to be type
+      // checked together with the other blocks in the group, or have
+      // @ts-continue to be type checked together with the previous block
+      let unit = tsGroup ? groups.get(tsGroup) : tsContinue ? units.at(-1) : undefined;
+
+      if (!unit) {
+        unit = {
+          basename,
+          position,
+          blocks: [],
+          windowTypesFilenames: [],
+          options: compilerOptions,
+          isolate: false,
         };
+        units.push(unit);
+        if (tsGroup) groups.set(tsGroup, unit);
+      }
 
-        // Blocks can have @ts-expect-error=[1,10,50] in their info string
-        // (1-based lines) to insert an "// @ts-expect-error" comment before
-        // specified lines, in order to ignore specific lines (like
-        // requires of extra modules) without skipping the whole block
-        for (const line of tsExpectErrorLines ?? []) {
-          insertComment('// @ts-expect-error', line);
-        }
+      let types = '';
+
+      // Blocks can have @ts-type={name:type} in their info
+      // string to declare a global variable for a block
+      if (tsTypeLines.length) {
+        // To support this feature, generate a random name for a
+        // module, generate an ambient module declaration for the
+        // module, and then import the global variables we're
+        // defining from that module name - there's no code for
+        // it, only an ambient module declaration which tsc
+        // will use to type the phantom variables being imported
+        const moduleName = crypto.randomBytes(16).toString('hex');
+        const extraTypes = tsTypeLines
+          .map((type) => `  export var ${type[1]}: ${type[2]};`)
+          .join('\n');
+        const typesFilename = `${virtualDirectory}/${basename}-types.d.ts`;
+        files.set(typesFilename, {
+          ...position,
+          content: `declare module "${moduleName}" {\n${extraTypes}\n}\n`,
+          generated: true,
+        });
+        typings.push(typesFilename);
+        types = `const {${tsTypeLines
+          .map((type) => type[1])
+          .join(',')}} = require('${moduleName}')`;
+      }
 
-        // Indent the lines if necessary so that tsc output is accurate
-        const code = wrapOrphanObjectInParens(
-          codeLines
-            .map((line) => (line.length ? line.padStart(line.length + indent) : line))
-            .join('\n'),
-        );
+      // Blocks can have @ts-window-type={name:type} in their
+      // info string to extend the Window object for a block
+      if (!tsNoIsolate && tsWindowTypeLines.length) {
+        const extraTypes = tsWindowTypeLines
+          .map((type) => `    ${type[1]}: ${type[2]};`)
+          .join('\n');
+        const windowTypesFilename = `${virtualDirectory}/${basename}-window.d.ts`;
+        // Needs an export {} at the end to make TypeScript happy
+        files.set(windowTypesFilename, {
+          ...position,
+          content: `declare global {\n  interface Window {\n${extraTypes}\n  }\n}\n\nexport {};\n`,
+          generated: true,
+        });
+        unit.windowTypesFilenames.push(windowTypesFilename);
+        unit.isolate = true;
+      } else if (tsOptionLines.length || (!tsNoIsolate && code.match(/^\s*declare global /m))) {
+        // Blocks with their own compiler options also need their own program
+        unit.isolate = true;
+      }
 
-        // If there are no require() or import lines, insert a default set of
-        // imports so that most snippets will have what they need.
-        // This isn't foolproof and might cause name conflicts
-        const imports = codeBlock.value.match(/^\s*(?:import .* from )|(?:.* = require())/m)
-          ? ''
-          : (config?.['markdown-ts-check']?.defaultImports?.join(';') ?? '') + ';';
+      unit.options = { ...unit.options, ...blockOptions.options, noEmit: true };
+      if (tsOptionLines.length) unit.optionsPosition = position;
+      unit.blocks.push({
+        code,
+        line: insertedInitialLine ? line : line + 1,
+        hasImports: /^\s*(?:import .* from )|(?:.* = require())/m.test(codeBlock.value),
+        extension,
+        types,
+      });
+    }
 
+    for (const {
+      basename,
+      position,
+      blocks,
+      windowTypesFilenames,
+      options,
+      optionsPosition,
+      isolate,
+    } of units) {
+      const isTypeScript = blocks.some(({ extension }) => !TYPESCRIPT_EXTENSIONS[extension]);
+      // JSX is only parsed in .jsx and .tsx files, so if any code block in the unit is JSX, they all are
+      const isJsx = blocks.some(({ extension }) => extension === 'jsx' || extension === 'tsx');
+      const unitExtension = isJsx ? 'jsx' : blocks[0].extension;
+      const extension = isTypeScript
+        ? TYPESCRIPT_EXTENSIONS[unitExtension] ?? unitExtension
+        : unitExtension;
+      const filename = `${virtualDirectory}/${basename}.${extension}`;
+
+      // If there are no require() or import lines, insert a default set of
+      // imports so that most snippets will have what they need.
+      // This isn't foolproof and might cause name conflicts
+      const imports = blocks.some((block) => block.hasImports)
+        ? ''
+        : (config?.['markdown-ts-check']?.defaultImports?.join(';') ?? '') + ';';
+
+      let content = `// @ts-check\n${imports}\n`;
+      let currentLine = 3;
+
+      for (const block of blocks) {
         // Insert the necessary number of blank lines so that the line
-        // numbers in output from tsc is accurate to the original file
-        const blankLines = '\n'.repeat(Math.max(0, insertedInitialLine ? line - 3 : line - 2));
-
-        // Filename is unique since it is the name of the original Markdown
-        // file, with the starting line number of the codeblock appended
-        const filename = path.join(
-          tempDir,
-          `${filepath
-            .replace(new RegExp(path.sep.replace(/\\/g, '\\\\'), 'g'), '-')
-            .replace(/\./g, '-')}-${line}.${isTypeScript ? 'ts' : 'js'}`,
-        );
+        // numbers of diagnostics are accurate to the original file
+        const blankLines = Math.max(0, block.line - currentLine);
+        content += `${'\n'.repeat(blankLines)}${block.code}\n`;
+        currentLine += blankLines + block.code.split('\n').length;
+      }
 
-        // Blocks can have @ts-type={name:type} in their info
-        // string to declare a global variable for a block
-        if (tsTypeLines.length) {
-          // To support this feature, generate a random name for a
-          // module, generate an ambient module declaration for the
-          // module, and then import the global variables we're
-          // defining from that module name - there's no code on
-          // disk for it, only an ambient module declaration which
-          // tsc will use to type the phantom variables being imported
-          const moduleName = crypto.randomBytes(16).toString('hex');
-          const extraTypes = tsTypeLines
-            .map((type) => `  export var ${type[1]}: ${type[2]};`)
-            .join('\n');
-          ambientModules += `declare module "${moduleName}" {\n${extraTypes}\n}\n\n`;
-          types = `const {${tsTypeLines
-            .map((type) => type[1])
-            .join(',')}} = require('${moduleName}')`;
-        }
+      content += blocks.map((block) => block.types).join('\n');
+      files.set(filename, { ...position, content });
+
+      if (isolate) {
+        isolatedPrograms.push({
+          rootNames: [...windowTypesFilenames, filename],
+          options,
+          optionsPosition,
+        });
+      } else {
+        filenames.push(filename);
+      }
+    }
+  }
 
-        // Blocks can have @ts-window-type={name:type} in their
-        // info string to extend the Window object for a block
-        if (!tsNoIsolate && tsWindowTypeLines.length) {
-          const extraTypes = tsWindowTypeLines
-            .map((type) => `    ${type[1]}: ${type[2]};`)
-            .join('\n');
-          // Needs an export {} at the end to make TypeScript happy
-          windowTypes = `declare global {\n  interface Window {\n${extraTypes}\n  }\n}\n\nexport {};\n\n`;
-          fs.writeFileSync(filename.replace(/.[jt]s$/, '-window.d.ts'), windowTypes);
-          isolateFilenames.add(filename);
-        } else if (!tsNoIsolate && code.match(/^\s*declare global /m)) {
-          isolateFilenames.add(filename);
-        } else {
-          filenames.push(filename);
+  for (const typing of config?.['markdown-ts-check']?.typings ?? []) {
+    typings.push(toTsFileName(path.resolve(workspaceRoot, typing)));
+  }
+
+  // Source files can only be shared between programs with the same compiler options
+  const hosts = new Map<string, ts.CompilerHost>();
+  const getHost = (options: ts.CompilerOptions) => {
+    const key = JSON.stringify(options);
+    if (!hosts.has(key)) {
+      hosts.set(key, createCompilerHost(files, options));
+    }
+
+    return hosts.get(key)!;
+  };
+  const documents = new Map<string, ts.SourceFile>();
+
+  // Diagnostics in generated files are reported against the original
+  // Markdown file, which is parsed so that they can be shown in context
+  const getDocument = (document: string) => {
+    if (!documents.has(document)) {
+      const text = fs.readFileSync(document, 'utf-8');
+      documents.set(document, ts.createSourceFile(document, text, ts.ScriptTarget.Latest));
+    }
+
+    return documents.get(document)!;
+  };
+
+  const mapLocation = <T extends ts.DiagnosticRelatedInformation>(diagnostic: T): T => {
+    const file = diagnostic.file && files.get(diagnostic.file.fileName);
+
+    if (!file || diagnostic.start === undefined) {
+      return diagnostic;
+    }
+
+    const document = getDocument(file.document);
+    const lineStarts = document.getLineStarts();
+
+    // Code is at the same line and column in the generated file
+    // as in the Markdown file, so only the offset changes
+    const toDocumentOffset = (offset: number) => {
+      if (file.generated) {
+        return lineStarts[file.line - 1] + file.column - 1;
+      }
+      const position = diagnostic.file!.getLineAndCharacterOfPosition(offset);
+      const line = Math.min(position.line, lineStarts.length - 1);
+      const lineStart = lineStarts[line];
+      const lineEnd = lineStarts[line + 1] ?? document.text.length;
+      return Math.min(lineStart + position.character, Math.max(lineStart, lineEnd - 1));
+    };
+
+    const start = toDocumentOffset(diagnostic.start);
+    const end = toDocumentOffset(diagnostic.start + (diagnostic.length ?? 0));
+
+    return { ...diagnostic, file: document, start, length: Math.max(0, end - start) };
+  };
+
+  const reportDiagnostic = (
+    { file, start, length }: { file: ts.SourceFile; start: number; length: number },
+    ruleId: string,
+    message: string,
+  ) => {
+    const startPosition = file.getLineAndCharacterOfPosition(start);
+    const endPosition = file.getLineAndCharacterOfPosition(start + length);
+    const diagnostic: LintDiagnostic = {
+      file: path.relative(workspaceRoot, file.fileName),
+      line: startPosition.line + 1,
+      column: startPosition.character + 1,
+      endLine: endPosition.line + 1,
+      endColumn: endPosition.character + 1,
+      severity: 'error',
+      ruleId,
+      message,
+    };
+
+    if (format === 'text') {
+      console.log(`${diagnostic.file}:${diagnostic.line}:${diagnostic.column}: ${message}`);
+    }
+    diagnostics.push(diagnostic);
+    errors = true;
+  };
+
+  const typeCheckFiles = ({ rootNames, options, optionsPosition }: Program) => {
+    const program = ts.createProgram({
+      rootNames: [...typings, ...rootNames],
+      options,
+      host: getHost(options),
+    });
+
+    for (const diagnostic of ts.getPreEmitDiagnostics(program)) {
+      // Diagnostics without a file are problems with the
+      // configuration, such as typings that don't exist
+      if (!diagnostic.file) {
+        const message = flattenDiagnostics([diagnostic]);
+
+        // Only the code block is affected if the problem is with its @ts-options
+        if (!optionsPosition) {
+          throw new Error(message);
         }
+        reportBlockDiagnostic(
+          optionsPosition,
+          'ts-check/invalid-options',
+          `Invalid @ts-options: ${message}`,
+        );
+        continue;
+      }
+
+      tsDiagnostics.push({
+        ...mapLocation(diagnostic),
+        relatedInformation: diagnostic.relatedInformation?.map(mapLocation),
+      });
+    }
+
+    const checker = program.getTypeChecker();
+
+    for (const rootName of rootNames) {
+      const sourceFile = program.getSourceFile(rootName);
 
-        fs.writeFileSync(filename, `// @ts-check\n${imports}\n${blankLines}${code}\n${types}`);
-        originalFilenames.set(filename, filepath);
+      if (!sourceFile || files.get(rootName)?.generated) {
+        continue;
+      }
+
+      for (const { start, length, message } of checkTypeQueries(sourceFile, checker)) {
+        const location = mapLocation({
+          file: sourceFile,
+          start,
+          length,
+          category: ts.DiagnosticCategory.Error,
+          code: 0,
+          messageText: message,
+        });
+        reportDiagnostic(
+          { file: location.file!, start: location.start!, length: location.length! },
+          'ts-check/type-query',
+          message,
+        );
       }
     }
+  };
+
+  // Files for code blocks with window type directives or 'declare global' need
+  // to be processed separately since window types are by nature global, and
+  // they would bleed between blocks otherwise, which can cause problems
+  for (const program of isolatedPrograms) {
+    typeCheckFiles(program);
+  }
 
-    const ambientTypings = path.join(tempDir, 'ambient.d.ts');
-    fs.writeFileSync(ambientTypings, ambientModules);
+  // For the rest of the files, check them all at once so it doesn't take forever
+  if (filenames.length) {
+    typeCheckFiles({ rootNames: filenames, options: compilerOptions });
+  }
+
+  for (const { document, line, indent, code } of expectedErrors) {
+    const file = getDocument(document);
+    const onLine = tsDiagnostics.filter(
+      ({ file: diagnosticFile, start = 0 }) =>
+        diagnosticFile === file && file.getLineAndCharacterOfPosition(start).line === line - 1,
+    );
+
+    if (onLine.some((diagnostic) => diagnostic.code === code)) {
+      // Like @ts-expect-error, this ignores all errors on the line
+      tsDiagnostics = tsDiagnostics.filter((diagnostic) => !onLine.includes(diagnostic));
+    } else {
+      const found = onLine.length
+        ? Array.from(new Set(onLine.map((diagnostic) => `TS${diagnostic.code}`))).join(', ')
+        : 'none';
+      reportDiagnostic(
+        { file, start: file.getLineStarts()[line - 1] + indent, length: 0 },
+        'ts-check/expected-error',
+        `Expected error TS${code} but found ${found}`,
+      );
+    }
+  }
 
-    const typings = [ambientTypings];
+  const changes = new Map<TextDocument, TextEdit[]>();
+
+  // Update the @ts-expect-error directive in the info string of code blocks
+  // so that lines with errors are ignored, and stale lines are removed
+  for (const { document, line, endLine, expectErrors } of fixableBlocks) {
+    const file = getDocument(URI.parse(document.uri).fsPath);
+    const lineOf = ({ start = 0 }: ts.Diagnostic) =>
+      file.getLineAndCharacterOfPosition(start).line + 1;
+    const fixable = tsDiagnostics.filter(
+      (diagnostic) =>
+        diagnostic.file === file &&
+        diagnostic.category === ts.DiagnosticCategory.Error &&
+        lineOf(diagnostic) >= line &&
+        lineOf(diagnostic) < endLine,
+    );
 
-    // Copy over the typings so that a relative path can be used
-    for (const typing of config?.['markdown-ts-check']?.typings ?? []) {
-      const tempPath = path.join(tempDir, path.basename(typing));
-      fs.copyFileSync(path.join(path.resolve(workspaceRoot), typing), tempPath);
-      typings.push(tempPath);
+    // The inserted comment is on the line before the one it applies
+    // to, or on the line of the code fence for the first line
+    const staleLines = fixable
+      .filter(({ code }) => code === UNUSED_EXPECT_ERROR_CODE)
+      .map((diagnostic) => lineOf(diagnostic) - line + 1);
+    const errorLines = fixable
+      .filter((diagnostic) => diagnostic.code !== UNUSED_EXPECT_ERROR_CODE)
+      .map((diagnostic) => lineOf(diagnostic) - line)
+      .filter((errorLine) => errorLine > 0);
+
+    // Entries with an error code are never changed
+    const entries = expectErrors.filter(
+      ([errorLine, code]) => code !== undefined || !staleLines.includes(errorLine),
+    );
+    for (const errorLine of new Set(errorLines)) {
+      if (!entries.some(([entryLine]) => entryLine === errorLine)) {
+        entries.push([errorLine]);
+      }
     }
 
-    // Files for code blocks with window type directives or 'declare global' need
-    // to be processed separately since window types are by nature global, and
-    // they would bleed between blocks otherwise, which can cause problems
-    for (const filename of isolateFilenames) {
-      const filenames = [filename];
-      const windowTypesFilename = filename.replace(/.[jt]s$/, '-window.d.ts');
-      try {
-        fs.statSync(windowTypesFilename);
-        filenames.unshift(windowTypesFilename);
-      } catch {}
-
-      const status = await typeCheckFiles(tempDir, originalFilenames, filenames, typings);
-      errors = errors || status !== 0;
+    if (
+      entries.length === expectErrors.length &&
+      entries.every((entry) => expectErrors.includes(entry))
+    ) {
+      continue;
     }
 
-    // For the rest of the files, run them all at once so it doesn't take forever
-    for (const chunk of chunkFilenames(filenames)) {
-      const status = await typeCheckFiles(tempDir, originalFilenames, chunk, typings);
-      errors = errors || status !== 0;
+    const directive = entries.length
+      ? ` @ts-expect-error=[${entries
+          .sort(([a], [b]) => a - b)
+          .map((entry) => entry.join(':'))
+          .join(',')}]`
+      : '';
+    const fence = document.getText().split('\n')[line - 1].replace(/\r$/, '');
+    const newText = tsExpectErrorRegex.test(fence)
+      ? fence.replace(new RegExp(`\\s*${tsExpectErrorRegex.source}`), directive)
+      : `${fence}${directive}`;
+
+    // Only the info string is changed, the code in the block is left as-is
+    const edits = changes.get(document) ?? [];
+    edits.push({
+      range: {
+        start: { line: line - 1, character: 0 },
+        end: { line: line - 1, character: fence.length },
+      },
+      newText,
+    });
+    changes.set(document, edits);
+
+    tsDiagnostics = tsDiagnostics.filter((diagnostic) => !fixable.includes(diagnostic));
+  }
+
+  for (const [document, edits] of changes) {
+    const uri = URI.parse(document.uri);
+    if (format === 'text') {
+      console.log(`File has changed: ${workspace.getWorkspaceRelativePath(uri)}`);
     }
+    fs.writeFileSync(uri.fsPath, TextDocument.applyEdits(document, edits));
+  }
 
-    return errors;
-  } finally {
-    await fs.promises.rm(tempDir, { force: true, recursive: true });
+  // Imports which couldn't be resolved are most likely a problem with the
+  // workspace rather than the code, so they're reported with some guidance
+  const moduleNotFoundDiagnostics = ts.sortAndDeduplicateDiagnostics(
+    tsDiagnostics.filter((diagnostic) => MODULE_NOT_FOUND_ERROR_CODES.includes(diagnostic.code)),
+  );
+
+  for (const diagnostic of moduleNotFoundDiagnostics) {
+    const [, moduleName] = /'([^']*)'/.exec(flattenDiagnostics([diagnostic])) ?? [];
+    reportDiagnostic(
+      { file: diagnostic.file!, start: diagnostic.start ?? 0, length: diagnostic.length ?? 0 },
+      'ts-check/module-not-found',
+      `Cannot find module '${moduleName}', install it in the workspace or ` +
+        'add its types with typings, typeRoots or paths in the config',
+    );
+  }
+  tsDiagnostics = tsDiagnostics.filter(
+    (diagnostic) => !MODULE_NOT_FOUND_ERROR_CODES.includes(diagnostic.code),
+  );
+
+  const sortedDiagnostics = ts.sortAndDeduplicateDiagnostics(tsDiagnostics);
+
+  for (const diagnostic of sortedDiagnostics) {
+    const { file, start = 0, length = 0 } = diagnostic;
+    const startPosition = file!.getLineAndCharacterOfPosition(start);
+    const endPosition = file!.getLineAndCharacterOfPosition(start + length);
+
+    diagnostics.push({
+      file: path.relative(workspaceRoot, file!.fileName),
+      line: startPosition.line + 1,
+      column: startPosition.character + 1,
+      endLine: endPosition.line + 1,
+      endColumn: endPosition.character + 1,
+      severity: diagnostic.category === ts.DiagnosticCategory.Warning ? 'warning' : 'error',
+      ruleId: `TS${diagnostic.code}`,
+      message: ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'),
+    });
+
+    errors = errors || diagnostic.category === ts.DiagnosticCategory.Error;
+  }
+
+  if (format === 'text') {
+    const formatHost: ts.FormatDiagnosticsHost = {
+      getCanonicalFileName: (fileName) => fileName,
+      getCurrentDirectory: () => workspaceRoot,
+      getNewLine: () => '\n',
+    };
+
+    for (const diagnostic of sortedDiagnostics) {
+      console.log(ts.formatDiagnosticsWithColorAndContext([diagnostic], formatHost));
+    }
+  } else {
+    console.log(
+      formatDiagnostics(diagnostics, format, {
+        toolName: 'lint-roller-markdown-ts-check',
+        root: workspaceRoot,
+        rules: {
+          'ts-check/conflicting-directives':
+            "Code blocks with @ts-nocheck can't use other type checking directives",
+          'ts-check/invalid-options': '@ts-options must be valid compiler options',
+          'ts-check/invalid-expect-error':
+            'Entries in @ts-expect-error must be a line, optionally with an error code',
+          'ts-check/type-query': 'Type queries must match the type of the expression',
+          'ts-check/expected-error': 'Lines in @ts-expect-error with a code must have that error',
+          'ts-check/module-not-found': 'Imported modules must be resolvable from the workspace',
+        },
+      }),
+    );
   }
+
+  return errors;
 }
 
-function parseCommandLine() {
+function parseCommandLine(args: string[]) {
   const showUsage = (): never => {
     console.log(
-      'Usage: lint-roller-markdown-ts-check [--root <dir>] <globs> [-h|--help]' +
-        '[--ignore <globs>] [--ignore-path <path>] [--config <path>]',
+      'Usage: lint-roller-markdown-ts-check [--root <dir>] <globs> [-h|--help] [--fix]' +
+        '[--ignore <globs>] [--ignore-path <path>] [--config <path>] [--format <text|json|sarif|github>]',
     );
     process.exit(1);
   };
 
   try {
     const opts = parseArgs({
+      args,
       allowPositionals: true,
       options: {
         config: {
           type: 'string',
         },
-        root: {
-          type: 'string',
-        },
-        ignore: {
-          type: 'string',
-          multiple: true,
-        },
-        'ignore-path': {
-          type: 'string',
-        },
-        help: {
+        fix: {
           type: 'boolean',
         },
+        ...COMMON_OPTIONS,
       },
     });
 
     if (opts.values.help || !opts.positionals.length) return showUsage();
+    if (!isOutputFormat(opts.values.format)) return showUsage();
 
     return opts;
   } catch {
@@ -319,40 +962,23 @@ function parseCommandLine() {
   }
 }
 
-if ((await fs.promises.realpath(process.argv[1])) === fileURLToPath(import.meta.url)) {
-  const { values: opts, positionals } = parseCommandLine();
-
-  if (!opts.root) {
-    opts.root = '.';
-  }
-
-  if (opts.ignore) {
-    opts.ignore = Array.isArray(opts.ignore) ? opts.ignore : [opts.ignore];
-  } else {
-    opts.ignore = [];
-  }
-
-  if (opts['ignore-path']) {
-    const ignores = fs.readFileSync(path.resolve(opts['ignore-path']), { encoding: 'utf-8' });
-
-    for (const ignore of ignores.split('\n')) {
-      opts.ignore.push(ignore.trimEnd());
-    }
-  }
+export async function run(args: string[], workspace?: DocsWorkspace) {
+  const { values: opts, positionals } = parseCommandLine(args);
+  const { format, workspaceRoot, ignoreGlobs } = resolveCommonOptions(opts);
 
   const config = loadConfig(
     opts.config ? path.resolve(opts.config) : path.resolve('.lint-roller.json'),
   );
 
-  main(path.resolve(process.cwd(), opts.root), positionals, {
+  return main(workspaceRoot, positionals, {
     config,
-    ignoreGlobs: opts.ignore,
-  })
-    .then((errors) => {
-      if (errors) process.exit(1);
-    })
-    .catch((error) => {
-      console.error(error);
-      process.exit(1);
-    });
+    fix: opts.fix,
+    format,
+    ignoreGlobs,
+    workspace,
+  });
+}
+
+if (await isMainModule(import.meta.url)) {
+  runCommand(run, process.argv.slice(2));
 }
@@ -0,0 +1,122 @@
+#!/usr/bin/env node
+
+import * as path from 'node:path';
+import { parseArgs } from 'node:util';
+
+import { isMainModule, resolveCommonOptions, runCommand, COMMON_OPTIONS } from '../lib/cli.js';
+import { DocsWorkspace } from '../lib/markdown.js';
+
+interface Command {
+  run: (args: string[], workspace?: DocsWorkspace) => Promise<boolean>;
+}
+
+// Commands are imported when they're run, so only the dependencies of that command are loaded
+const COMMANDS: Record<string, () => Promise<Command>> = {
+  'api-history': () => import('./lint-markdown-api-history.js'),
+  'api-typings': () => import('./lint-markdown-api-typings.js'),
+  doctest: () => import('./lint-markdown-doctest.js'),
+  links: () => import('./lint-markdown-links.js'),
+  standard: () => import('./lint-markdown-standard.js'),
+  'ts-check': () => import('./lint-markdown-ts-check.js'),
+};
+
+// Commands run by `lint-roller all`, api-typings is also run if there are typings to check against
+const ALL_COMMANDS = ['links', 'standard', 'ts-check', 'api-history', 'doctest'];
+
+// The output of each command is concatenated, so only formats which can be are allowed
+const ALL_OUTPUT_FORMATS = ['text', 'github'];
+
+function showUsage(): never {
+  console.log(
+    `Usage: lint-roller <${Object.keys(COMMANDS).join('|')}> [--root <dir>] <globs> [-h|--help]` +
+      '[--ignore <globs>] [--ignore-path <path>] [--format <text|json|sarif|github>] [<command options>]\n' +
+      '       lint-roller all [--root <dir>] <globs> [-h|--help] [--ignore <globs>] [--ignore-path <path>]' +
+      '[--typings <path>] [--format <text|github>]',
+  );
+  process.exit(1);
+}
+
+function parseCommandLine(args: string[]) {
+  try {
+    const opts = parseArgs({
+      args,
+      allowPositionals: true,
+      options: {
+        typings: {
+          type: 'string',
+        },
+        ...COMMON_OPTIONS,
+      },
+    });
+
+    if (opts.values.help || !opts.positionals.length) return showUsage();
+    if (!ALL_OUTPUT_FORMATS.includes(opts.values.format)) return showUsage();
+
+    return opts;
+  } catch {
+    return showUsage();
+  }
+}
+
+// Runs every command over the same workspace, so each document is only read once
+async function runAll(args: string[]) {
+  const { values: opts, positionals } = parseCommandLine(args);
+  const { format, workspaceRoot, ignoreGlobs } = resolveCommonOptions(opts);
+  const workspace = new DocsWorkspace(workspaceRoot, positionals, ignoreGlobs);
+
+  // The ignore path has already been read, so the commands are given the resolved options
+  const commandArgs = [
+    '--root',
+    workspaceRoot,
+    '--format',
+    format,
+    ...ignoreGlobs.flatMap((ignore) => ['--ignore', ignore]),
+    ...positionals,
+  ];
+  const commands = opts.typings ? [...ALL_COMMANDS, 'api-typings'] : ALL_COMMANDS;
+  let errors = false;
+
+  for (const name of commands) {
+    const args =
+      name === 'api-typings'
+        ? ['--typings', path.resolve(process.cwd(), opts.typings!), ...commandArgs]
+        : commandArgs;
+
+    if (format === 'text') {
+      console.log(`lint-roller ${name}:`);
+    }
+
+    // A command which throws shouldn't stop the other commands from running
+    try {
+      const { run } = await COMMANDS[name]();
+
+      if (await run(args, workspace)) {
+        errors = true;
+      }
+    } catch (error) {
+      console.error(error);
+      errors = true;
+    }
+
+    if (format === 'text') {
+      console.log();
+    }
+  }
+
+  return errors;
+}
+
+export async function run(args: string[]) {
+  const [command, ...commandArgs] = args;
+
+  if (command === 'all') return runAll(commandArgs);
+  if (!command || !Object.hasOwn(COMMANDS, command)) return showUsage();
+
+  const { run } = await COMMANDS[command]();
+
+  return run(commandArgs);
+}
+
+if (await isMainModule(import.meta.url)) {
+  runCommand(run, process.argv.slice(2));
+}
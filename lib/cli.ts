@@ -0,0 +1,87 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+import type { OutputFormat } from './diagnostics.js';
+import type { DocsWorkspace } from './markdown.js';
+
+// Options which every command accepts, for use with `parseArgs`
+export const COMMON_OPTIONS = {
+  format: {
+    type: 'string',
+    default: 'text',
+  },
+  root: {
+    type: 'string',
+  },
+  ignore: {
+    type: 'string',
+    multiple: true,
+  },
+  'ignore-path': {
+    type: 'string',
+  },
+  help: {
+    type: 'boolean',
+  },
+} as const;
+
+export interface CommonOptionValues {
+  format?: string;
+  root?: string;
+  ignore?: string[];
+  'ignore-path'?: string;
+}
+
+export interface CommonOptions {
+  format: OutputFormat;
+  // Absolute path of the root of the workspace
+  workspaceRoot: string;
+  ignoreGlobs: string[];
+}
+
+// Options which every command's main function accepts
+export interface CommandOptions {
+  // Format of the output, text output is logged as the linting progresses
+  format?: OutputFormat;
+  // Array of glob patterns to ignore when processing files
+  ignoreGlobs?: string[];
+  // Workspace to lint rather than creating one, so documents can be shared between commands
+  workspace?: DocsWorkspace;
+}
+
+// The format should already have been checked with `isOutputFormat`
+export function resolveCommonOptions(values: CommonOptionValues): CommonOptions {
+  const ignoreGlobs = [...(values.ignore ?? [])];
+
+  if (values['ignore-path']) {
+    const ignores = fs.readFileSync(path.resolve(values['ignore-path']), { encoding: 'utf-8' });
+
+    for (const ignore of ignores.split('\n')) {
+      ignoreGlobs.push(ignore.trimEnd());
+    }
+  }
+
+  return {
+    format: (values.format ?? 'text') as OutputFormat,
+    workspaceRoot: path.resolve(process.cwd(), values.root ?? '.'),
+    ignoreGlobs,
+  };
+}
+
+// Whether the module is the script being run, rather than imported by `lint-roller`
+export async function isMainModule(importMetaUrl: string) {
+  return (await fs.promises.realpath(process.argv[1])) === fileURLToPath(importMetaUrl);
+}
+
+// Runs a command with the arguments, exiting with an error code if it fails
+export function runCommand(run: (args: string[]) => Promise<boolean>, args: string[]) {
+  run(args)
+    .then((errors) => {
+      if (errors) process.exit(1);
+    })
+    .catch((error) => {
+      console.error(error);
+      process.exit(1);
+    });
+}
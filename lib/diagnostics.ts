@@ -0,0 +1,166 @@
+import * as path from 'node:path';
+import { pathToFileURL } from 'node:url';
+
+import type * as sarif from 'sarif';
+
+export type DiagnosticSeverity = 'error' | 'warning';
+
+export interface LintDiagnostic {
+  // Path of the file, relative to the workspace root
+  file: string;
+  // Lines and columns are 1-based
+  line: number;
+  column: number;
+  endLine: number;
+  endColumn: number;
+  severity: DiagnosticSeverity;
+  ruleId: string;
+  message: string;
+}
+
+export const OUTPUT_FORMATS = ['text', 'json', 'sarif', 'github'] as const;
+
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+export function isOutputFormat(format: string): format is OutputFormat {
+  return (OUTPUT_FORMATS as readonly string[]).includes(format);
+}
+
+export interface ReportOptions {
+  // Name of the command which produced the diagnostics
+  toolName: string;
+  // Absolute path of the workspace root, which diagnostic file paths are relative to
+  root: string;
+  // Short descriptions of the rules, keyed by rule ID
+  rules?: Record<string, string>;
+}
+
+export function compareDiagnostics(a: LintDiagnostic, b: LintDiagnostic) {
+  return (
+    a.file.localeCompare(b.file) ||
+    a.line - b.line ||
+    a.column - b.column ||
+    a.ruleId.localeCompare(b.ruleId) ||
+    a.message.localeCompare(b.message)
+  );
+}
+
+function toSarifLog(
+  diagnostics: LintDiagnostic[],
+  { toolName, root, rules = {} }: ReportOptions,
+): sarif.Log {
+  const ruleIds = Array.from(new Set(diagnostics.map(({ ruleId }) => ruleId))).sort();
+  const descriptors: sarif.ReportingDescriptor[] = ruleIds.map((id) => ({
+    id,
+    ...(rules[id] ? { shortDescription: { text: rules[id] } } : {}),
+  }));
+
+  return {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: toolName,
+            informationUri: 'https://github.com/electron/lint-roller',
+            rules: descriptors,
+          },
+        },
+        // Artifact locations are relative to the workspace root
+        originalUriBaseIds: {
+          ROOT: { uri: pathToFileURL(`${path.resolve(root)}${path.sep}`).toString() },
+        },
+        results: diagnostics.map((diagnostic) => ({
+          ruleId: diagnostic.ruleId,
+          ruleIndex: ruleIds.indexOf(diagnostic.ruleId),
+          level: diagnostic.severity,
+          message: { text: diagnostic.message },
+          locations: [
+            {
+              physicalLocation: {
+                artifactLocation: {
+                  uri: encodeURI(diagnostic.file.split(path.sep).join(path.posix.sep)),
+                  uriBaseId: 'ROOT',
+                },
+                region: {
+                  startLine: diagnostic.line,
+                  startColumn: diagnostic.column,
+                  endLine: diagnostic.endLine,
+                  endColumn: diagnostic.endColumn,
+                },
+              },
+            },
+          ],
+        })),
+      },
+    ],
+  };
+}
+
+// See https://github.com/actions/toolkit/blob/main/packages/core/src/command.ts
+function escapeCommandData(value: string) {
+  return value.replace(/%/g, '%25').replace(/\r/g, '%0D').replace(/\n/g, '%0A');
+}
+
+function escapeCommandProperty(value: string) {
+  return escapeCommandData(value).replace(/:/g, '%3A').replace(/,/g, '%2C');
+}
+
+// GitHub Actions workflow commands, which are shown as annotations on the
+// files in a pull request. File paths are relative to the working directory,
+// which in a workflow is the checkout of the repository
+function toWorkflowCommands(diagnostics: LintDiagnostic[], { root }: ReportOptions): string {
+  return diagnostics
+    .map((diagnostic) => {
+      const file = path.relative(process.cwd(), path.resolve(root, diagnostic.file));
+      const properties = Object.entries({
+        file: file.split(path.sep).join(path.posix.sep),
+        line: diagnostic.line,
+        col: diagnostic.column,
+        endLine: diagnostic.endLine,
+        endColumn: diagnostic.endColumn,
+        title: diagnostic.ruleId,
+      })
+        .map(([key, value]) => `${key}=${escapeCommandProperty(`${value}`)}`)
+        .join(',');
+
+      return `::${diagnostic.severity} ${properties}::${escapeCommandData(diagnostic.message)}`;
+    })
+    .join('\n');
+}
+
+// Text output is specific to each command, so only the
+// machine-readable formats are handled here
+export function formatDiagnostics(
+  diagnostics: LintDiagnostic[],
+  format: Exclude<OutputFormat, 'text'>,
+  options: ReportOptions,
+): string {
+  const sorted = [...diagnostics].sort(compareDiagnostics);
+
+  switch (format) {
+    case 'json':
+      return JSON.stringify(
+        // Explicitly pick properties so the key order is stable
+        sorted.map(({ file, line, column, endLine, endColumn, severity, ruleId, message }) => ({
+          file,
+          line,
+          column,
+          endLine,
+          endColumn,
+          severity,
+          ruleId,
+          message,
+        })),
+        null,
+        2,
+      );
+
+    case 'sarif':
+      return JSON.stringify(toSarifLog(sorted, options), null, 2);
+
+    case 'github':
+      return toWorkflowCommands(sorted, options);
+  }
+}
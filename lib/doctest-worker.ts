@@ -0,0 +1,37 @@
+import { createRequire } from 'node:module';
+import * as path from 'node:path';
+import { formatWithOptions } from 'node:util';
+import * as vm from 'node:vm';
+import { parentPort, workerData } from 'node:worker_threads';
+
+// Runs a code block for lint-roller-markdown-doctest, which runs each code block in a
+// worker so that it has the same globals as Node, and so the worker only exits once
+// any timers and promises the code block leaves pending have finished. What the code
+// block logs to the console is posted back a line at a time, and errors, including
+// unhandled rejections, are emitted as an 'error' event on the worker.
+
+export interface DoctestWorkerData {
+  code: string;
+  filename: string;
+  // Line of the document the code starts after
+  lineOffset: number;
+}
+
+const { code, filename, lineOffset } = workerData as DoctestWorkerData;
+
+const log = (...args: unknown[]) => {
+  parentPort!.postMessage(formatWithOptions({ colors: false }, ...args));
+};
+
+for (const method of ['log', 'info', 'debug', 'warn', 'error'] as const) {
+  console[method] = log;
+}
+
+// Code blocks are run as CommonJS, like a file next to the document
+const module = { exports: {} };
+const fn = vm.compileFunction(code, ['require', 'module', 'exports', '__filename', '__dirname'], {
+  filename,
+  lineOffset,
+});
+
+fn(createRequire(filename), module, module.exports, filename, path.dirname(filename));
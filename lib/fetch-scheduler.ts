@@ -0,0 +1,166 @@
+import { setTimeout as sleep } from 'node:timers/promises';
+
+export interface FetchSchedulerOptions {
+  // Maximum number of requests in flight at once
+  concurrency?: number;
+  // Maximum number of requests in flight at once to a single hostname
+  hostConcurrency?: number;
+  // Number of times to retry a request after a 429, 5xx, or network error
+  retries?: number;
+  // Milliseconds before a single request is aborted
+  timeout?: number;
+  // Milliseconds to wait before the first retry, doubled for each retry after that
+  retryDelay?: number;
+  // Upper bound in milliseconds for any single wait between retries
+  maxRetryDelay?: number;
+}
+
+export const DEFAULT_FETCH_CONCURRENCY = 16;
+export const DEFAULT_FETCH_HOST_CONCURRENCY = 4;
+export const DEFAULT_FETCH_RETRIES = 3;
+export const DEFAULT_FETCH_TIMEOUT = 30_000;
+
+const DEFAULT_RETRY_DELAY = 1_000;
+const DEFAULT_MAX_RETRY_DELAY = 60_000;
+
+interface PendingRequest {
+  hostname: string;
+  start: () => void;
+}
+
+function isRetryableStatus(status: number) {
+  return status === 429 || status >= 500;
+}
+
+// Retry-After can either be a number of seconds or an HTTP date
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  if (/^\d+$/.test(value.trim())) {
+    return parseInt(value) * 1000;
+  }
+
+  const date = Date.parse(value);
+
+  if (!isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+
+  return undefined;
+}
+
+export class FetchScheduler {
+  private readonly queue: PendingRequest[];
+  private readonly activeByHostname: Map<string, number>;
+  private active: number;
+  readonly concurrency: number;
+  readonly hostConcurrency: number;
+  readonly retries: number;
+  readonly timeout: number;
+  readonly retryDelay: number;
+  readonly maxRetryDelay: number;
+
+  constructor({
+    concurrency = DEFAULT_FETCH_CONCURRENCY,
+    hostConcurrency = DEFAULT_FETCH_HOST_CONCURRENCY,
+    retries = DEFAULT_FETCH_RETRIES,
+    timeout = DEFAULT_FETCH_TIMEOUT,
+    retryDelay = DEFAULT_RETRY_DELAY,
+    maxRetryDelay = DEFAULT_MAX_RETRY_DELAY,
+  }: FetchSchedulerOptions = {}) {
+    this.queue = [];
+    this.activeByHostname = new Map();
+    this.active = 0;
+    this.concurrency = Math.max(1, concurrency);
+    this.hostConcurrency = Math.max(1, hostConcurrency);
+    this.retries = Math.max(0, retries);
+    this.timeout = timeout;
+    this.retryDelay = retryDelay;
+    this.maxRetryDelay = maxRetryDelay;
+  }
+
+  // Fetches the URL once a slot is available, retrying transient failures.
+  // Once retries are exhausted the last response is returned, or the last
+  // network error is thrown if there was never a response
+  async fetch(url: string, init: RequestInit = {}): Promise<Response> {
+    const { hostname } = new URL(url);
+
+    for (let attempt = 0; ; attempt++) {
+      const canRetry = attempt < this.retries;
+      let response: Response;
+
+      await this.acquire(hostname);
+
+      try {
+        response = await fetch(url, { ...init, signal: AbortSignal.timeout(this.timeout) });
+      } catch (error) {
+        if (!canRetry) {
+          throw error;
+        }
+
+        await sleep(this.getBackoff(attempt));
+        continue;
+      } finally {
+        this.release(hostname);
+      }
+
+      if (!canRetry || !isRetryableStatus(response.status)) {
+        return response;
+      }
+
+      const retryAfter = parseRetryAfter(response.headers.get('retry-after'));
+
+      // Discard the body so the connection can be reused
+      await response.body?.cancel();
+      await sleep(Math.min(retryAfter ?? this.getBackoff(attempt), this.maxRetryDelay));
+    }
+  }
+
+  private getBackoff(attempt: number) {
+    return Math.min(this.retryDelay * 2 ** attempt, this.maxRetryDelay);
+  }
+
+  private canStart(hostname: string) {
+    return (
+      this.active < this.concurrency &&
+      (this.activeByHostname.get(hostname) ?? 0) < this.hostConcurrency
+    );
+  }
+
+  private start(hostname: string) {
+    this.active++;
+    this.activeByHostname.set(hostname, (this.activeByHostname.get(hostname) ?? 0) + 1);
+  }
+
+  private acquire(hostname: string) {
+    return new Promise<void>((resolve) => {
+      if (this.canStart(hostname)) {
+        this.start(hostname);
+        resolve();
+      } else {
+        this.queue.push({ hostname, start: resolve });
+      }
+    });
+  }
+
+  private release(hostname: string) {
+    this.active--;
+    this.activeByHostname.set(hostname, this.activeByHostname.get(hostname)! - 1);
+
+    // Start as many queued requests as the limits now allow, skipping
+    // over any which are for a hostname that is still at its limit
+    for (let idx = 0; idx < this.queue.length && this.active < this.concurrency; ) {
+      const pending = this.queue[idx];
+
+      if (this.canStart(pending.hostname)) {
+        this.queue.splice(idx, 1);
+        this.start(pending.hostname);
+        pending.start();
+      } else {
+        idx++;
+      }
+    }
+  }
+}
@@ -1,6 +1,4 @@
-import * as childProcess from 'node:child_process';
 import * as fs from 'node:fs';
-import * as os from 'node:os';
 
 import { range as balancedRange } from 'balanced-match';
 
@@ -18,64 +16,6 @@ export function wrapOrphanObjectInParens(block: string) {
   return block.replace(/^([{|[][\s\S]+[}|\]])$/gm, '($1)');
 }
 
-export type SpawnAsyncResult = {
-  stdout: string;
-  stderr: string;
-  status: number | null;
-};
-
-export async function spawnAsync(
-  command: string,
-  args: string[],
-  options?: childProcess.SpawnOptionsWithoutStdio,
-): Promise<SpawnAsyncResult> {
-  return new Promise((resolve, reject) => {
-    try {
-      const stdio = { stdout: '', stderr: '' };
-      const spawned = childProcess.spawn(command, args, options || {});
-
-      spawned.stdout.on('data', (data) => {
-        stdio.stdout += data;
-      });
-
-      spawned.stderr.on('data', (data) => {
-        stdio.stderr += data;
-      });
-
-      spawned.on('exit', (code) => resolve({ ...stdio, status: code }));
-      spawned.on('error', (err) => reject(err));
-    } catch (err) {
-      reject(err);
-    }
-  });
-}
-
-export function chunkFilenames(filenames: string[], offset: number = 0): string[][] {
-  // Windows has a max command line length of 2047 characters, so we can't
-  // provide too many filenames without going over that. To work around that,
-  // chunk up a list of filenames such that it won't go over that limit when
-  // used as args. Use a much higher limit on other platforms which will
-  // effectively be a no-op.
-  const MAX_FILENAME_ARGS_LENGTH = os.platform() === 'win32' ? 2047 - offset : 100 * 1024;
-
-  return filenames.reduce(
-    (chunkedFilenames: string[][], filename) => {
-      const currChunk = chunkedFilenames[chunkedFilenames.length - 1];
-      const currChunkLength = currChunk.reduce(
-        (totalLength, _filename) => totalLength + _filename.length + 1,
-        0,
-      );
-      if (currChunkLength + filename.length + 1 > MAX_FILENAME_ARGS_LENGTH) {
-        chunkedFilenames.push([filename]);
-      } else {
-        currChunk.push(filename);
-      }
-      return chunkedFilenames;
-    },
-    [[]],
-  );
-}
-
 export function findCurlyBracedDirectives(directive: string, str: string) {
   const prefix = `${directive}=`;
   const matches: string[] = [];
@@ -99,9 +39,32 @@ export function findCurlyBracedDirectives(directive: string, str: string) {
 export interface LintRollerTsCheckConfig {
   defaultImports?: string[];
   typings?: string[];
+  // Path of a tsconfig.json (relative to the root) to take compiler options from
+  tsconfig?: string;
+  // Compiler options as they would be written in a tsconfig.json, which
+  // take precedence over any compiler options from the tsconfig.json
+  compilerOptions?: Record<string, unknown>;
+  // Directories (relative to the root) to look for type declarations
+  // in, instead of node_modules/@types in the root and its parents
+  typeRoots?: string[];
+  // Module specifiers to map to paths (relative to the root), for imports
+  // which can't be resolved from node_modules in the workspace
+  paths?: Record<string, string[]>;
+}
+
+export interface LintRollerLinksHeadersConfig {
+  patterns: string[];
+  headers: Record<string, string>;
+}
+
+export interface LintRollerLinksConfig {
+  skip?: string[];
+  warn?: string[];
+  headers?: LintRollerLinksHeadersConfig[];
 }
 
 export interface LintRollerConfig {
+  'markdown-links'?: LintRollerLinksConfig;
   'markdown-ts-check'?: LintRollerTsCheckConfig;
 }
 
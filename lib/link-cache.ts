@@ -0,0 +1,104 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+
+export const DEFAULT_CACHE_LOCATION = path.join('.lint-roller-cache', 'links.json');
+
+// One day, in seconds
+export const DEFAULT_CACHE_TTL = 24 * 60 * 60;
+
+const CACHE_VERSION = 1;
+
+export interface LinkCacheEntry {
+  // HTTP status of the response, undefined if the request failed outright
+  status?: number;
+  statusText?: string;
+  // Final URL after following any redirects
+  url?: string;
+  redirected?: boolean;
+  // Milliseconds since the epoch when the link was fetched
+  timestamp: number;
+}
+
+interface LinkCacheFile {
+  version: number;
+  links: Record<string, LinkCacheEntry>;
+}
+
+export function isSuccessfulEntry(entry: LinkCacheEntry) {
+  return entry.status === 200;
+}
+
+export class LinkCache {
+  private readonly entries: Map<string, LinkCacheEntry>;
+  readonly location: string;
+  readonly ttl: number;
+
+  constructor(location: string, ttl: number = DEFAULT_CACHE_TTL) {
+    this.entries = new Map();
+    this.location = location;
+    this.ttl = ttl;
+  }
+
+  static load(location: string, ttl: number = DEFAULT_CACHE_TTL) {
+    const cache = new LinkCache(location, ttl);
+
+    if (!fs.existsSync(location)) {
+      return cache;
+    }
+
+    let contents: LinkCacheFile | null;
+
+    // The cache can always be rebuilt, so start fresh if it can't be read
+    try {
+      contents = JSON.parse(fs.readFileSync(location, 'utf8'));
+    } catch {
+      console.warn(`Couldn't parse link cache at ${location}, starting with an empty cache`);
+      return cache;
+    }
+
+    // Start fresh rather than misinterpret an older format
+    if (contents?.version !== CACHE_VERSION) {
+      return cache;
+    }
+
+    for (const [link, entry] of Object.entries(contents.links ?? {})) {
+      if (!cache.isExpired(entry)) {
+        cache.entries.set(link, entry);
+      }
+    }
+
+    return cache;
+  }
+
+  isExpired(entry: LinkCacheEntry) {
+    return Date.now() - entry.timestamp >= this.ttl * 1000;
+  }
+
+  // Only successful results are served from the cache - failures are
+  // recorded so they show up in the file, but are always re-checked
+  get(link: string): LinkCacheEntry | undefined {
+    const entry = this.entries.get(link);
+
+    if (entry && isSuccessfulEntry(entry) && !this.isExpired(entry)) {
+      return entry;
+    }
+
+    return undefined;
+  }
+
+  set(link: string, entry: LinkCacheEntry) {
+    this.entries.set(link, entry);
+  }
+
+  save() {
+    const contents: LinkCacheFile = {
+      version: CACHE_VERSION,
+      links: Object.fromEntries(
+        Array.from(this.entries.entries()).sort(([a], [b]) => a.localeCompare(b)),
+      ),
+    };
+
+    fs.mkdirSync(path.dirname(this.location), { recursive: true });
+    fs.writeFileSync(this.location, `${JSON.stringify(contents, null, 2)}\n`);
+  }
+}
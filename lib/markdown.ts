@@ -19,15 +19,22 @@ import {
 } from '@dsanders11/vscode-markdown-languageservice';
 import { visit } from 'unist-util-visit';
 import { fromMarkdown } from 'mdast-util-from-markdown';
+import { toString } from 'mdast-util-to-string';
 import { Emitter, Range } from 'vscode-languageserver';
 import { TextDocument } from 'vscode-languageserver-textdocument';
 import { URI } from 'vscode-uri';
 
-import type { Code, Definition, ImageReference, Link, LinkReference } from 'mdast';
+import type { Code, Definition, Heading, ImageReference, Link, LinkReference } from 'mdast';
 import type { Node, Position } from 'unist';
 
 export type { Code };
 
+export interface HeadingAnchor {
+  heading: Heading;
+  // ID of the heading, as used for the fragment of links to it
+  anchor: string;
+}
+
 // Helper function from `vscode-markdown-languageservice` codebase
 function tryDecodeUri(str: string): string {
   try {
@@ -89,8 +96,12 @@ function positionToRange(position: Position): Range {
 
 const mdIt = MarkdownIt({ html: true });
 
+// Heading anchors are slugified the same as GitHub, both for the links computed by the
+// language service when linting links, and by getHeadingAnchors for everything else
+const headingSlugifier = githubSlugifier;
+
 export class MarkdownParser implements IMdParser {
-  slugifier = githubSlugifier;
+  slugifier = headingSlugifier;
 
   async tokenize(document: TextDocument) {
     return mdIt.parse(document.getText(), {});
@@ -116,23 +127,35 @@ export class DocsWorkspace implements IWorkspace {
     return [URI.file(this.root)];
   }
 
+  // Documents are only read once, so commands sharing a workspace share the
+  // documents, and only the documents matching the globs are returned, not
+  // other documents which have been opened, like the targets of links
   async getAllMarkdownDocuments(): Promise<Iterable<TextDocument>> {
-    const files = this.globs.flatMap((pattern) =>
-      glob.sync(pattern, { ignore: this.ignoreGlobs, absolute: true, cwd: this.root }),
+    const files = new Set(
+      this.globs.flatMap((pattern) =>
+        glob.sync(pattern, { ignore: this.ignoreGlobs, absolute: true, cwd: this.root }),
+      ),
     );
+    const documents: TextDocument[] = [];
 
     for (const file of files) {
-      const document = TextDocument.create(
-        URI.file(file).toString(),
-        'markdown',
-        1,
-        fs.readFileSync(file, 'utf8'),
-      );
-
-      this.documentCache.set(file, document);
+      let document = this.documentCache.get(file);
+
+      if (!document) {
+        document = TextDocument.create(
+          URI.file(file).toString(),
+          'markdown',
+          1,
+          fs.readFileSync(file, 'utf8'),
+        );
+
+        this.documentCache.set(file, document);
+      }
+
+      documents.push(document);
     }
 
-    return this.documentCache.values();
+    return documents;
   }
 
   hasMarkdownDocument(resource: URI) {
@@ -350,3 +373,28 @@ export async function getCodeBlocks(content: string): Promise<Code[]> {
 
   return codeBlocks;
 }
+
+// Gets the anchor of each heading in a document, the same as GitHub and the language
+// service's table of contents. The text of the heading, including the contents of inline
+// code, emphasis and links (but not HTML tags), is slugified and headings with the same
+// slug get an increasing -1, -2, etc. suffix.
+export function getHeadingAnchors(content: string): HeadingAnchor[] {
+  const anchors: HeadingAnchor[] = [];
+  const counts = new Map<string, number>();
+
+  visit(fromMarkdown(content), 'heading', (heading: Heading) => {
+    let { value: anchor } = headingSlugifier.fromHeading(toString(heading, { includeHtml: false }));
+    const count = counts.get(anchor);
+
+    if (count !== undefined) {
+      counts.set(anchor, count + 1);
+      anchor = headingSlugifier.fromHeading(`${anchor}-${count + 1}`).value;
+    } else {
+      counts.set(anchor, 0);
+    }
+
+    anchors.push({ heading, anchor });
+  });
+
+  return anchors;
+}
@@ -0,0 +1,56 @@
+import * as path from 'node:path';
+
+import { describe, expect, it } from 'vitest';
+
+import { formatDiagnostics, LintDiagnostic } from '../lib/diagnostics.js';
+
+const diagnostic: LintDiagnostic = {
+  file: 'docs/api.md',
+  line: 3,
+  column: 5,
+  endLine: 3,
+  endColumn: 12,
+  severity: 'error',
+  ruleId: 'broken-fragment',
+  message: "No header found: 'foo'",
+};
+
+describe('formatDiagnostics', () => {
+  describe('github', () => {
+    const options = { toolName: 'test', root: process.cwd() };
+
+    it('should output a workflow command per diagnostic', () => {
+      const output = formatDiagnostics(
+        [diagnostic, { ...diagnostic, line: 1, severity: 'warning', ruleId: 'redirected-link' }],
+        'github',
+        options,
+      );
+
+      expect(output.split('\n')).toEqual([
+        "::warning file=docs/api.md,line=1,col=5,endLine=3,endColumn=12,title=redirected-link::No header found: 'foo'",
+        "::error file=docs/api.md,line=3,col=5,endLine=3,endColumn=12,title=broken-fragment::No header found: 'foo'",
+      ]);
+    });
+
+    it('should make file paths relative to the working directory', () => {
+      const output = formatDiagnostics([diagnostic], 'github', {
+        ...options,
+        root: path.join(process.cwd(), 'tests'),
+      });
+
+      expect(output).toContain('file=tests/docs/api.md,');
+    });
+
+    it('should escape special characters', () => {
+      const output = formatDiagnostics(
+        [{ ...diagnostic, ruleId: 'standard/a,b:c', message: '100% broken\r\nsecond line' }],
+        'github',
+        options,
+      );
+
+      expect(output).toEqual(
+        '::error file=docs/api.md,line=3,col=5,endLine=3,endColumn=12,title=standard/a%2Cb%3Ac::100%25 broken%0D%0Asecond line',
+      );
+    });
+  });
+});
@@ -0,0 +1,119 @@
+import * as http from 'node:http';
+import { AddressInfo } from 'node:net';
+
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+
+import { FetchScheduler } from '../lib/fetch-scheduler.js';
+
+describe('FetchScheduler', () => {
+  const attempts = new Map<string, number>();
+  let inFlight = 0;
+  let maxInFlight = 0;
+  let server: http.Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      const url = new URL(req.url!, 'http://localhost');
+      const attempt = (attempts.get(url.pathname) ?? 0) + 1;
+      attempts.set(url.pathname, attempt);
+
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+
+      const respond = (status: number, headers: http.OutgoingHttpHeaders = {}) => {
+        inFlight--;
+        res.writeHead(status, headers);
+        res.end();
+      };
+
+      switch (url.pathname) {
+        case '/flaky':
+          // Fails twice before succeeding
+          return respond(attempt <= 2 ? 503 : 200);
+        case '/rate-limited':
+          return respond(attempt === 1 ? 429 : 200, attempt === 1 ? { 'retry-after': '1' } : {});
+        case '/not-found':
+          return respond(404);
+        case '/hang':
+          // Never responds, so the request times out
+          return;
+        default:
+          setTimeout(() => respond(200), 50);
+      }
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    attempts.clear();
+    inFlight = 0;
+    maxInFlight = 0;
+  });
+
+  it('should retry 5xx responses with backoff', async () => {
+    const scheduler = new FetchScheduler({ retries: 3, retryDelay: 10 });
+    const response = await scheduler.fetch(`${baseUrl}/flaky`);
+
+    expect(response.status).toEqual(200);
+    expect(attempts.get('/flaky')).toEqual(3);
+  });
+
+  it('should return the last response once retries are exhausted', async () => {
+    const scheduler = new FetchScheduler({ retries: 1, retryDelay: 10 });
+    const response = await scheduler.fetch(`${baseUrl}/flaky`);
+
+    expect(response.status).toEqual(503);
+    expect(attempts.get('/flaky')).toEqual(2);
+  });
+
+  it('should not retry other error statuses', async () => {
+    const scheduler = new FetchScheduler({ retries: 3, retryDelay: 10 });
+    const response = await scheduler.fetch(`${baseUrl}/not-found`);
+
+    expect(response.status).toEqual(404);
+    expect(attempts.get('/not-found')).toEqual(1);
+  });
+
+  it('should honor Retry-After', async () => {
+    const scheduler = new FetchScheduler({ retries: 1, retryDelay: 10 });
+    const start = Date.now();
+    const response = await scheduler.fetch(`${baseUrl}/rate-limited`);
+
+    expect(response.status).toEqual(200);
+    expect(attempts.get('/rate-limited')).toEqual(2);
+    expect(Date.now() - start).toBeGreaterThanOrEqual(950);
+  });
+
+  it('should abort requests which exceed the timeout', async () => {
+    const scheduler = new FetchScheduler({ retries: 1, retryDelay: 10, timeout: 100 });
+
+    await expect(scheduler.fetch(`${baseUrl}/hang`)).rejects.toThrow();
+    expect(attempts.get('/hang')).toEqual(2);
+  });
+
+  it('should limit the number of requests in flight to a hostname', async () => {
+    const scheduler = new FetchScheduler({ concurrency: 10, hostConcurrency: 2 });
+    const responses = await Promise.all(
+      Array.from({ length: 8 }, (_, idx) => scheduler.fetch(`${baseUrl}/slow-${idx}`)),
+    );
+
+    expect(responses.every((response) => response.status === 200)).toEqual(true);
+    expect(maxInFlight).toEqual(2);
+  });
+
+  it('should limit the number of requests in flight globally', async () => {
+    const scheduler = new FetchScheduler({ concurrency: 3, hostConcurrency: 10 });
+    await Promise.all(
+      Array.from({ length: 8 }, (_, idx) => scheduler.fetch(`${baseUrl}/slow-${idx}`)),
+    );
+
+    expect(maxInFlight).toEqual(3);
+  });
+});
@@ -0,0 +1,51 @@
+declare namespace Electron {
+  const NodeEventEmitter: typeof import('events').EventEmitter;
+
+  interface App extends NodeJS.EventEmitter {
+    // Docs: https://electronjs.org/docs/api/app
+
+    on(event: 'ready', listener: () => void): this;
+    once(event: 'ready', listener: () => void): this;
+    on(event: 'window-all-closed', listener: () => void): this;
+    once(event: 'window-all-closed', listener: () => void): this;
+    getName(): string;
+    quit(): void;
+    name: string;
+  }
+
+  class BrowserWindow extends NodeEventEmitter {
+    // Docs: https://electronjs.org/docs/api/browser-window
+
+    on(event: 'close', listener: (event: Event) => void): this;
+    once(event: 'close', listener: (event: Event) => void): this;
+    constructor(options?: BrowserWindowConstructorOptions);
+    static getAllWindows(): BrowserWindow[];
+    static getFocusedWindow(): BrowserWindow | null;
+    close(): void;
+    setBounds(bounds: Partial<Rectangle>, animate?: boolean): void;
+    id: number;
+  }
+
+  interface BrowserWindowConstructorOptions {
+    width?: number;
+    height?: number;
+  }
+
+  interface Rectangle {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+  }
+
+  namespace Main {
+    const app: App;
+    class BrowserWindow extends Electron.BrowserWindow {}
+    type BrowserWindowConstructorOptions = Electron.BrowserWindowConstructorOptions;
+    type Rectangle = Electron.Rectangle;
+  }
+}
+
+declare module 'electron' {
+  export = Electron.Main;
+}
@@ -1,8 +1,9 @@
 import { spawnSync } from 'node:child_process';
 import { tmpdir } from 'node:os';
-import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
 import path, { resolve } from 'node:path';
 
+import Ajv from 'ajv';
 import { afterAll, beforeAll, describe, expect, it } from 'vitest';
 
 const FIXTURES_DIR = resolve(__dirname, 'fixtures');
@@ -58,9 +59,12 @@ async function generateRandomApiDocuments(): Promise<GenerateRandomApiDocumentsR
     return _generateRandomApiDocumentsResult;
   }
 
-  function generateRandomPrUrl() {
-    const randomPrNumber = testPrNumbers[Math.floor(Math.random() * testPrNumbers.length)];
-    return `https://github.com/electron/electron/pull/${randomPrNumber}`;
+  // Pull request URLs can't be repeated in a block, so each one is different
+  function generateRandomPrUrls() {
+    return testPrNumbers
+      .map((prNumber) => ({ prNumber, sort: Math.random() }))
+      .sort((a, b) => a.sort - b.sort)
+      .map(({ prNumber }) => `https://github.com/electron/electron/pull/${prNumber}`);
   }
 
   function generateRandomBreakingHeadingId() {
@@ -109,17 +113,19 @@ async function generateRandomApiDocuments(): Promise<GenerateRandomApiDocumentsR
       const { isError: IsHeadingError, heading } = randomlyGenerateHeading(blockIdx);
       if (IsHeadingError) generatedErrorCount++;
 
+      const [addedPrUrl, changesPrUrl, deprecatedPrUrl] = generateRandomPrUrls();
+
       content +=
         `${heading}\n\n` +
         '<!--\n' +
         '```YAML history\n' +
         'added:\n' +
-        `  - pr-url: ${generateRandomPrUrl()}\n` +
+        `  - pr-url: ${addedPrUrl}\n` +
         'changes:\n' +
-        `  - pr-url: ${generateRandomPrUrl()}\n` +
+        `  - pr-url: ${changesPrUrl}\n` +
         `    description: "Made \`trafficLightPosition\` work for \`customButtonOnHover\`."\n` +
         'deprecated:\n' +
-        `  - pr-url: ${generateRandomPrUrl()}\n` +
+        `  - pr-url: ${deprecatedPrUrl}\n` +
         `    breaking-changes-header: ${generateRandomBreakingHeadingId()} ${stringWarnChar}\n` +
         '```\n' +
         '-->\n\n' +
@@ -190,7 +196,7 @@ describe('lint-roller-markdown-api-history', () => {
       'api-history-yaml-invalid.md',
     );
 
-    expect(stderr).toMatch(/must be array/);
+    expect(stderr).toMatch(/Nested mappings are not allowed in compact mappings/);
 
     const [blocks, documents, errors, warnings] = stdoutRegex.exec(stdout)?.slice(1, 5) ?? [];
 
@@ -201,6 +207,28 @@ describe('lint-roller-markdown-api-history', () => {
     expect(status).toEqual(1);
   });
 
+  it('should report yaml syntax errors at their location', () => {
+    const { status, stdout } = runLintMarkdownApiHistory(
+      '--root',
+      FIXTURES_DIR,
+      '--no-check-strings',
+      '--format',
+      'json',
+      'api-history-yaml-syntax-invalid.md',
+    );
+
+    expect(JSON.parse(stdout)).toEqual([
+      expect.objectContaining({
+        file: 'api-history-yaml-syntax-invalid.md',
+        line: 8,
+        column: 57,
+        ruleId: 'api-history/yaml',
+        message: expect.stringContaining('Missing closing "quote'),
+      }),
+    ]);
+    expect(status).toEqual(1);
+  });
+
   it('should not run clean when there are schema errors', () => {
     const { status, stdout, stderr } = runLintMarkdownApiHistory(
       '--root',
@@ -317,7 +345,7 @@ describe('lint-roller-markdown-api-history', () => {
     );
 
     expect(stderr).toMatch(/Possible string value starts\/ends with a non-alphanumeric character/);
-    expect(stderr).toMatch(/must be string/);
+    expect(stderr).toMatch(/Nested mappings are not allowed in compact mappings/);
 
     const [blocks, documents, errors, warnings] = stdoutRegex.exec(stdout)?.slice(1, 5) ?? [];
 
@@ -513,4 +541,482 @@ describe('lint-roller-markdown-api-history', () => {
     expect(Number(warnings)).toEqual(generatedWarningCount);
     expect(status).toEqual(generatedErrorCount > 0 ? 1 : 0);
   });
+
+  it('can fix api history formatting with --fix option', async () => {
+    const fixFolder = await mkdtemp(path.join(tmpdir(), 'lint-roller-api-history-fix-'));
+    const fixable = resolve(fixFolder, 'api-history-fixable.md');
+    await writeFile(fixable, await readFile(resolve(FIXTURES_DIR, 'api-history-fixable.md')));
+
+    try {
+      const { status, stdout } = runLintMarkdownApiHistory(
+        '--root',
+        fixFolder,
+        '--schema',
+        API_HISTORY_SCHEMA,
+        '--fix',
+        'api-history-fixable.md',
+      );
+
+      expect(await readFile(fixable, { encoding: 'utf-8' })).toMatchSnapshot();
+      expect(stdout).toMatch(/^File has changed: api-history-fixable.md$/m);
+      expect(status).toEqual(0);
+
+      // Nothing left to fix
+      expect(
+        runLintMarkdownApiHistory('--root', fixFolder, '--fix', 'api-history-fixable.md').stdout,
+      ).not.toMatch(/File has changed/);
+    } finally {
+      await rm(fixFolder, { recursive: true, force: true });
+    }
+  });
+
+  it('can output api history to a JSON file', async () => {
+    const outputFolder = await mkdtemp(path.join(tmpdir(), 'lint-roller-api-history-output-'));
+    const output = resolve(outputFolder, 'api-history.json');
+
+    try {
+      const { status } = runLintMarkdownApiHistory(
+        '--root',
+        FIXTURES_DIR,
+        '--schema',
+        API_HISTORY_SCHEMA,
+        '--output',
+        output,
+        '{api-history-valid,api-history-output}.md',
+      );
+
+      const apiHistory = JSON.parse(await readFile(output, { encoding: 'utf-8' }));
+
+      // Blocks which don't adhere to the schema aren't included
+      expect(apiHistory).toEqual({
+        'api-history-valid.md': {
+          'winsettrafficlightpositionposition-macos-deprecated': expect.objectContaining({
+            added: [{ 'pr-url': 'https://github.com/electron/electron/pull/22533' }],
+          }),
+        },
+        'api-history-output.md': {
+          appfoo: {
+            added: [{ 'pr-url': 'https://github.com/electron/electron/pull/22533' }],
+          },
+          'appfoo-1': {
+            added: [{ 'pr-url': 'https://github.com/electron/electron/pull/26789' }],
+            deprecated: [
+              {
+                'pr-url': 'https://github.com/electron/electron/pull/37094',
+                'breaking-changes-header':
+                  'deprecated-browserwindowsettrafficlightpositionposition',
+              },
+            ],
+          },
+        },
+      });
+
+      const validate = new Ajv({ strict: false }).compile(
+        JSON.parse(await readFile(API_HISTORY_SCHEMA, { encoding: 'utf-8' })),
+      );
+      for (const documentApiHistory of Object.values(apiHistory)) {
+        for (const history of Object.values(documentApiHistory as object)) {
+          expect(validate(history)).toEqual(true);
+        }
+      }
+
+      expect(status).toEqual(1);
+    } finally {
+      await rm(outputFolder, { recursive: true, force: true });
+    }
+  });
+
+  it('can output api history which adheres to the default schema', async () => {
+    const outputFolder = await mkdtemp(path.join(tmpdir(), 'lint-roller-api-history-output-'));
+    const output = resolve(outputFolder, 'api-history.json');
+
+    try {
+      const { status } = runLintMarkdownApiHistory(
+        '--root',
+        FIXTURES_DIR,
+        '--output',
+        output,
+        'api-history-output.md',
+      );
+
+      const apiHistory = JSON.parse(await readFile(output, { encoding: 'utf-8' }));
+
+      expect(Object.keys(apiHistory['api-history-output.md'])).toEqual(['appfoo', 'appfoo-1']);
+      expect(status).toEqual(1);
+    } finally {
+      await rm(outputFolder, { recursive: true, force: true });
+    }
+  });
+
+  it('should check pull requests against the pull request index', () => {
+    const { status, stdout } = runLintMarkdownApiHistory(
+      '--root',
+      FIXTURES_DIR,
+      '--pull-request-index',
+      resolve(FIXTURES_DIR, 'api-history-pull-requests.json'),
+      '--format',
+      'json',
+      'api-history-pull-requests.md',
+    );
+
+    expect(
+      JSON.parse(stdout).map(({ line, column, ruleId, message }: Record<string, string>) => [
+        `${line}:${column}`,
+        ruleId,
+        message,
+      ]),
+    ).toEqual([
+      [
+        '22:13',
+        'api-history/pull-request',
+        'Pull request #22600 is a backport of #22533, the original pull request should be added',
+      ],
+      [
+        '32:13',
+        'api-history/pull-request',
+        "Pull request #22600 is already added by #22533, backports shouldn't be added separately",
+      ],
+      [
+        '41:13',
+        'api-history/pull-request',
+        'Invalid pull request URL: http://github.com/electron/electron/pull/26789',
+      ],
+      [
+        '43:13',
+        'api-history/pull-request',
+        "Pull request URL isn't for electron/electron: https://github.com/electron/fiddle/pull/26789",
+      ],
+      [
+        '45:13',
+        'api-history/pull-request',
+        "Couldn't find pull request #99999 in the pull request index",
+      ],
+      ['47:13', 'api-history/pull-request', "Pull request #40000 hasn't been merged"],
+    ]);
+    expect(status).toEqual(1);
+  });
+
+  it('should check api history for problems the schema cannot express', () => {
+    const { status, stdout } = runLintMarkdownApiHistory(
+      '--root',
+      FIXTURES_DIR,
+      '--no-check-strings',
+      '--format',
+      'json',
+      'api-history-semantics-invalid.md',
+    );
+
+    expect(
+      JSON.parse(stdout).map(({ line, column, ruleId, message }: Record<string, string>) => [
+        `${line}:${column}`,
+        ruleId,
+        message,
+      ]),
+    ).toEqual([
+      [
+        '9:30',
+        'api-history/semantics',
+        'Breaking changes headers are only allowed under changes or deprecated: removed-appfoo',
+      ],
+      [
+        '10:10',
+        'api-history/semantics',
+        "Section 'changes' is empty, it should be removed or have a change",
+      ],
+      [
+        '12:13',
+        'api-history/semantics',
+        'Pull request URL is already in the API history block: https://github.com/electron/electron/pull/22533',
+      ],
+      [
+        '21:13',
+        'api-history/semantics',
+        'Invalid pull request URL: https://github.com/electron/electron/issues/26789',
+      ],
+      [
+        '23:13',
+        'api-history/semantics',
+        "Pull request URL isn't for electron/electron: https://github.com/electron/fiddle/pull/37094",
+      ],
+    ]);
+    expect(status).toEqual(1);
+  });
+
+  it('should report near misses and blocks nested in lists or blockquotes', () => {
+    const { status, stdout } = runLintMarkdownApiHistory(
+      '--root',
+      FIXTURES_DIR,
+      '--no-check-placement',
+      'api-history-near-miss.md',
+    );
+
+    const [blocks, documents, errors, warnings] = stdoutRegex.exec(stdout)?.slice(1, 5) ?? [];
+
+    expect(Number(blocks)).toEqual(4);
+    expect(Number(documents)).toEqual(1);
+    expect(Number(errors)).toEqual(3);
+    expect(Number(warnings)).toEqual(0);
+    expect(status).toEqual(1);
+
+    const { stdout: json } = runLintMarkdownApiHistory(
+      '--root',
+      FIXTURES_DIR,
+      '--no-check-placement',
+      '--report-unrecognized',
+      '--format',
+      'json',
+      'api-history-near-miss.md',
+    );
+
+    expect(
+      JSON.parse(json).map(({ line, column, severity, message }: Record<string, string>) => [
+        `${line}:${column}`,
+        severity,
+        message,
+      ]),
+    ).toEqual([
+      [
+        '5:1',
+        'error',
+        "Possible API history block has the info string 'yml history', did you mean 'YAML history'?",
+      ],
+      [
+        '14:1',
+        'error',
+        "Possible API history block has the info string 'YAML histroy', did you mean 'YAML history'?",
+      ],
+      // Nested blocks are reported for the whole block
+      ['25:3', 'error', 'Error validating YAML: /added/0 must NOT have additional properties'],
+      ['42:1', 'warning', "HTML comment contains a code block which isn't an API history block"],
+    ]);
+  });
+
+  it('should check breaking changes are referenced by api history', () => {
+    const { status, stdout } = runLintMarkdownApiHistory(
+      '--root',
+      FIXTURES_DIR,
+      '--schema',
+      API_HISTORY_SCHEMA,
+      '--breaking-changes-file',
+      resolve(FIXTURES_DIR, 'api-history-breaking-changes-planned.md'),
+      '--check-breaking-changes-references',
+      '--breaking-changes-allowlist',
+      resolve(FIXTURES_DIR, 'api-history-breaking-changes-allowlist'),
+      '--pull-request-index',
+      resolve(FIXTURES_DIR, 'api-history-pull-requests.json'),
+      '--format',
+      'json',
+      'api-history-breaking-changes-references.md',
+    );
+
+    expect(
+      JSON.parse(stdout).map(({ file, line, ruleId, message }: Record<string, string>) => [
+        `${file}:${line}`,
+        ruleId,
+        message,
+      ]),
+    ).toEqual([
+      // Allowlisted breaking changes don't need to be referenced
+      [
+        'api-history-breaking-changes-planned.md:7',
+        'api-history/breaking-changes-reference',
+        "Breaking change isn't referenced by any API history: removed-appbaz",
+      ],
+      [
+        'api-history-breaking-changes-references.md:9',
+        'api-history/semantics',
+        'Breaking changes headers are only allowed under changes or deprecated: deprecated-appbar',
+      ],
+      [
+        'api-history-breaking-changes-references.md:28',
+        'api-history/breaking-changes-header',
+        "Breaking change deprecated-appbar is planned for 33.0, but pull request #37094 wasn't released in it",
+      ],
+    ]);
+    expect(status).toEqual(1);
+  });
+
+  it('should count breaking changes referenced by invalid api history as referenced', () => {
+    const { status, stdout } = runLintMarkdownApiHistory(
+      '--root',
+      FIXTURES_DIR,
+      '--breaking-changes-file',
+      resolve(FIXTURES_DIR, 'api-history-breaking-changes-planned.md'),
+      '--check-breaking-changes-references',
+      '--format',
+      'json',
+      'api-history-breaking-changes-invalid-reference.md',
+    );
+
+    const diagnostics = JSON.parse(stdout);
+    expect(diagnostics).toContainEqual(
+      expect.objectContaining({ line: 12, ruleId: 'api-history/description' }),
+    );
+    expect(diagnostics).not.toContainEqual(
+      expect.objectContaining({
+        message: "Breaking change isn't referenced by any API history: removed-appbaz",
+      }),
+    );
+    expect(status).toEqual(1);
+  });
+
+  it('requires a breaking changes file to check breaking changes references', () => {
+    const { status, stdout } = runLintMarkdownApiHistory(
+      '--root',
+      FIXTURES_DIR,
+      '--check-breaking-changes-references',
+      'api-history-breaking-changes-references.md',
+    );
+
+    expect(stdout).toMatch(/^Usage: lint-roller-markdown-api-history/);
+    expect(status).toEqual(1);
+  });
+
+  it('can require API headings to have api history', () => {
+    const { status, stdout, stderr } = runLintMarkdownApiHistory(
+      '--root',
+      FIXTURES_DIR,
+      '--require-history',
+      '*-coverage.md',
+      '--history-allowlist',
+      resolve(FIXTURES_DIR, 'api-history-allowlist'),
+      '{api-history-coverage,api-history-valid}.md',
+    );
+
+    expect(stderr).toContain("'api-history-coverage.md:3:1'");
+    expect(stderr).toContain("'api-history-coverage.md:18:1'");
+    expect(stderr).toContain("'api-history-coverage.md:37:1'");
+    // Allowlisted headings aren't reported, but still count against the coverage
+    expect(stderr).not.toContain("'api-history-coverage.md:31:1'");
+    expect(stdout).toContain(
+      'API history coverage for api-history-coverage.md: 2/6 API heading(s) (33%)',
+    );
+    // Only documents matching the globs are required to have api history
+    expect(stdout).not.toContain('api-history-valid.md');
+
+    const [blocks, documents, errors, warnings] = stdoutRegex.exec(stdout)?.slice(1, 5) ?? [];
+
+    expect(Number(blocks)).toEqual(3);
+    expect(Number(documents)).toEqual(2);
+    expect(Number(errors)).toEqual(3);
+    expect(Number(warnings)).toEqual(0);
+    expect(status).toEqual(1);
+  });
+
+  it('should report API headings missing api history as diagnostics', () => {
+    const { status, stdout } = runLintMarkdownApiHistory(
+      '--root',
+      FIXTURES_DIR,
+      '--require-history',
+      '*-coverage.md',
+      '--format',
+      'json',
+      'api-history-coverage.md',
+    );
+
+    expect(
+      JSON.parse(stdout).map(({ line, ruleId, message }: Record<string, string>) => [
+        line,
+        ruleId,
+        message,
+      ]),
+    ).toEqual([
+      [3, 'api-history/missing', 'API heading is missing an API history block: ## Class: Coverage'],
+      [
+        18,
+        'api-history/missing',
+        "API heading is missing an API history block: #### Event: 'uncovered'",
+      ],
+      [
+        31,
+        'api-history/missing',
+        'API heading is missing an API history block: #### `coverage.legacy()`',
+      ],
+      [
+        37,
+        'api-history/missing',
+        'API heading is missing an API history block: #### `coverage.uncovered` _Readonly_',
+      ],
+    ]);
+    expect(status).toEqual(1);
+  });
+
+  it('should report the location of each problem', () => {
+    const { status, stdout, stderr } = runLintMarkdownApiHistory(
+      '--root',
+      FIXTURES_DIR,
+      '--schema',
+      API_HISTORY_SCHEMA,
+      '--breaking-changes-file',
+      BREAKING_CHANGES_FILE,
+      '{api-history-description-invalid,api-history-heading-missing,api-history-placement-invalid,api-history-schema-invalid}.md',
+    );
+
+    expect(stderr).toContain("'api-history-heading-missing.md:12:30'");
+    expect(status).toEqual(1);
+
+    const { stdout: json } = runLintMarkdownApiHistory(
+      '--root',
+      FIXTURES_DIR,
+      '--schema',
+      API_HISTORY_SCHEMA,
+      '--breaking-changes-file',
+      BREAKING_CHANGES_FILE,
+      '--format',
+      'json',
+      '{api-history-description-invalid,api-history-heading-missing,api-history-placement-invalid,api-history-schema-invalid}.md',
+    );
+
+    expect(stdout).toMatch(stdoutRegex);
+    expect(
+      JSON.parse(json).map(
+        ({ file, line, column, endLine, endColumn, ruleId }: Record<string, string>) => [
+          `${file}:${line}:${column}-${endLine}:${endColumn}`,
+          ruleId,
+        ],
+      ),
+    ).toEqual([
+      ['api-history-description-invalid.md:9:18-9:84', 'api-history/description'],
+      ['api-history-heading-missing.md:12:30-12:55', 'api-history/breaking-changes-header'],
+      // Problems with the block as a whole are reported for the entire HTML comment
+      ['api-history-placement-invalid.md:6:1-17:4', 'api-history/placement'],
+      ['api-history-schema-invalid.md:9:18-9:22', 'api-history/schema'],
+    ]);
+  });
+
+  it('can output diagnostics as JSON', () => {
+    const { status, stdout } = runLintMarkdownApiHistory(
+      '--root',
+      FIXTURES_DIR,
+      '--schema',
+      API_HISTORY_SCHEMA,
+      '--format',
+      'json',
+      '{api-history-valid,api-history-string-invalid}.md',
+    );
+
+    expect(stdout).not.toMatch(stdoutRegex);
+    expect(JSON.parse(stdout)).toEqual([
+      expect.objectContaining({
+        file: 'api-history-string-invalid.md',
+        line: 8,
+        column: 13,
+        endLine: 8,
+        endColumn: 61,
+        severity: 'warning',
+        ruleId: 'api-history/string',
+      }),
+      expect.objectContaining({
+        file: 'api-history-string-invalid.md',
+        line: 8,
+        column: 13,
+        severity: 'error',
+        ruleId: 'api-history/yaml',
+        message: expect.stringContaining(
+          '(YAML) YAMLParseError: Nested mappings are not allowed in compact mappings',
+        ),
+      }),
+    ]);
+    expect(status).toEqual(1);
+  });
 });
@@ -0,0 +1,122 @@
+import * as cp from 'node:child_process';
+import * as path from 'node:path';
+
+import { describe, expect, it } from 'vitest';
+
+const FIXTURES_DIR = path.resolve(__dirname, 'fixtures');
+const TYPINGS_FILE = path.resolve(FIXTURES_DIR, 'api-typings/electron.d.ts');
+
+function runLintMarkdownApiTypings(...args: string[]) {
+  return cp.spawnSync(
+    process.execPath,
+    [path.resolve(__dirname, '../dist/bin/lint-markdown-api-typings.js'), ...args],
+    {
+      stdio: 'pipe',
+      encoding: 'utf-8',
+      cwd: FIXTURES_DIR,
+      env: { NODE_OPTIONS: '--no-deprecation' },
+    },
+  );
+}
+
+describe('lint-roller-markdown-api-typings', () => {
+  it('requires --typings', () => {
+    const { status, stdout } = runLintMarkdownApiTypings(
+      '--root',
+      FIXTURES_DIR,
+      'api-typings/*.md',
+    );
+
+    expect(stdout).toContain('Usage');
+    expect(status).toEqual(1);
+  });
+
+  it('can ignore a glob', () => {
+    const { status, stdout } = runLintMarkdownApiTypings(
+      '--root',
+      FIXTURES_DIR,
+      '--typings',
+      TYPINGS_FILE,
+      '--ignore',
+      '**/*.md',
+      'api-typings/*.md',
+    );
+
+    expect(stdout).toEqual('');
+    expect(status).toEqual(0);
+  });
+
+  it('should report documented APIs which are not declared', () => {
+    const { status, stdout } = runLintMarkdownApiTypings(
+      '--root',
+      FIXTURES_DIR,
+      '--typings',
+      TYPINGS_FILE,
+      '--format',
+      'json',
+      'api-typings/*.md',
+    );
+
+    const diagnostics = JSON.parse(stdout);
+    expect(
+      diagnostics
+        .filter(({ ruleId }: { ruleId: string }) => ruleId === 'api-typings/not-declared')
+        .map(({ file, line, message }: Record<string, string>) => [file, line, message]),
+    ).toEqual(
+      expect.arrayContaining([
+        [
+          'api-typings/app.md',
+          11,
+          "Event 'will-finish-launching' of App is documented but isn't declared in electron.d.ts",
+        ],
+        [
+          'api-typings/app.md',
+          21,
+          "Method 'relaunch' of App is documented but isn't declared in electron.d.ts",
+        ],
+        // The instance name in the heading is for the class it's documented under
+        [
+          'api-typings/browser-window.md',
+          27,
+          "Property 'title' of BrowserWindow is documented but isn't declared in electron.d.ts",
+        ],
+      ]),
+    );
+    expect(status).toEqual(1);
+  });
+
+  it('should report declared APIs which are not documented', () => {
+    const { status, stdout } = runLintMarkdownApiTypings(
+      '--root',
+      FIXTURES_DIR,
+      '--typings',
+      TYPINGS_FILE,
+      '--format',
+      'json',
+      'api-typings/*.md',
+    );
+
+    const diagnostics = JSON.parse(stdout);
+    expect(
+      diagnostics
+        .filter(({ ruleId }: { ruleId: string }) => ruleId === 'api-typings/not-documented')
+        .map(({ file, line, message }: Record<string, string>) => [file, line, message]),
+    ).toEqual(
+      expect.arrayContaining([
+        [
+          'api-typings/app.md',
+          1,
+          "Event 'window-all-closed' of App is declared in electron.d.ts but isn't documented",
+        ],
+        [
+          'api-typings/browser-window.md',
+          5,
+          "Static method 'getFocusedWindow' of BrowserWindow is declared in electron.d.ts but isn't documented",
+        ],
+      ]),
+    );
+    // Types which aren't documented, like structures, aren't reported
+    expect(diagnostics).toHaveLength(5);
+    expect(status).toEqual(1);
+  });
+});
@@ -0,0 +1,98 @@
+import * as cp from 'node:child_process';
+import * as path from 'node:path';
+
+import { describe, expect, it } from 'vitest';
+
+const FIXTURES_DIR = path.resolve(__dirname, 'fixtures');
+
+function runLintMarkdownDoctest(...args: string[]) {
+  return cp.spawnSync(
+    process.execPath,
+    [path.resolve(__dirname, '../dist/bin/lint-markdown-doctest.js'), ...args],
+    {
+      stdio: 'pipe',
+      encoding: 'utf-8',
+      cwd: FIXTURES_DIR,
+      env: { NODE_OPTIONS: '--no-deprecation' },
+    },
+  );
+}
+
+describe('lint-roller-markdown-doctest', () => {
+  it('should run clean when there are no errors', () => {
+    const { status, stdout } = runLintMarkdownDoctest('--root', FIXTURES_DIR, 'doctest-clean.md');
+
+    expect(stdout).toEqual('');
+    expect(status).toEqual(0);
+  });
+
+  it('can ignore a glob', () => {
+    const { status } = runLintMarkdownDoctest(
+      '--root',
+      FIXTURES_DIR,
+      '--ignore',
+      '**/doctest.md',
+      '{doctest,doctest-clean}.md',
+    );
+
+    expect(status).toEqual(0);
+  });
+
+  it('should check the output of code blocks', () => {
+    const { status, stdout } = runLintMarkdownDoctest(
+      '--root',
+      FIXTURES_DIR,
+      '--timeout',
+      '500',
+      '--format',
+      'json',
+      'doctest.md',
+    );
+
+    const diagnostics = JSON.parse(stdout);
+    expect(
+      diagnostics.map(({ line, ruleId }: { line: number; ruleId: string }) => [line, ruleId]),
+    ).toEqual([
+      [28, 'doctest/output'],
+      [35, 'doctest/error'],
+      [39, 'doctest/error'],
+      [45, 'doctest/output'],
+      [53, 'doctest/error'],
+    ]);
+    expect(diagnostics[0].message).toEqual(
+      "Output doesn't match the expected output\nExpected:\n4\nActual:\n3",
+    );
+    expect(diagnostics[1].message).toEqual('Code block threw an error: Oops');
+    expect(diagnostics[2].message).toEqual('Code block timed out after 500ms');
+    // Rejected promises are reported on the code block, and the
+    // code blocks after it, which use Node's timers, are still run
+    expect(diagnostics[4].message).toEqual('Code block threw an error: boom');
+    expect(status).toEqual(1);
+  });
+
+  it('should error on an invalid timeout', () => {
+    const { status, stdout } = runLintMarkdownDoctest(
+      '--root',
+      FIXTURES_DIR,
+      '--timeout',
+      'soon',
+      'doctest.md',
+    );
+
+    expect(stdout).toContain('Usage: lint-roller-markdown-doctest');
+    expect(status).toEqual(1);
+  });
+
+  it('should error on a timeout of zero', () => {
+    const { status, stdout } = runLintMarkdownDoctest(
+      '--root',
+      FIXTURES_DIR,
+      '--timeout',
+      '0',
+      'doctest.md',
+    );
+
+    expect(stdout).toContain('Usage: lint-roller-markdown-doctest');
+    expect(status).toEqual(1);
+  });
+});
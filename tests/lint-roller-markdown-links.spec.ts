@@ -1,7 +1,11 @@
 import * as cp from 'node:child_process';
+import * as fs from 'node:fs';
+import * as http from 'node:http';
+import { AddressInfo } from 'node:net';
+import * as os from 'node:os';
 import * as path from 'node:path';
 
-import { describe, expect, it } from 'vitest';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from 'vitest';
 
 const FIXTURES_DIR = path.resolve(__dirname, 'fixtures');
 
@@ -13,6 +17,26 @@ function runLintMarkdownLinks(...args: string[]) {
   );
 }
 
+// Async version for use with the local HTTP server, since
+// spawnSync would block the server from responding
+function runLintMarkdownLinksAsync(...args: string[]) {
+  return new Promise<{ status: number | null; stdout: string; stderr: string }>(
+    (resolve, reject) => {
+      const child = cp.spawn(process.execPath, [
+        path.resolve(__dirname, '../dist/bin/lint-markdown-links.js'),
+        ...args,
+      ]);
+      let stdout = '';
+      let stderr = '';
+
+      child.stdout.on('data', (data) => (stdout += data));
+      child.stderr.on('data', (data) => (stderr += data));
+      child.on('error', reject);
+      child.on('close', (status) => resolve({ status, stdout, stderr }));
+    },
+  );
+}
+
 describe('lint-roller-markdown-links', () => {
   it('should catch broken internal links', () => {
     const { status, stdout } = runLintMarkdownLinks(
@@ -109,6 +133,7 @@ describe('lint-roller-markdown-links', () => {
       '--root',
       FIXTURES_DIR,
       '--fetch-external-links',
+      '--no-cache',
       'broken-external-link.md',
     );
 
@@ -121,6 +146,7 @@ describe('lint-roller-markdown-links', () => {
       '--root',
       FIXTURES_DIR,
       '--fetch-external-links',
+      '--no-cache',
       '--check-redirects',
       'redirected-external-link.md',
     );
@@ -135,6 +161,7 @@ describe('lint-roller-markdown-links', () => {
       FIXTURES_DIR,
       'broken-external-link.md',
       '--fetch-external-links',
+      '--no-cache',
     );
 
     expect(stdout).toContain('Broken link');
@@ -147,6 +174,7 @@ describe('lint-roller-markdown-links', () => {
       FIXTURES_DIR,
       'github-label-link.md',
       '--fetch-external-links',
+      '--no-cache',
     );
 
     expect(status).toEqual(0);
@@ -158,6 +186,7 @@ describe('lint-roller-markdown-links', () => {
       FIXTURES_DIR,
       'twitter-link.md',
       '--fetch-external-links',
+      '--no-cache',
     );
 
     expect(status).toEqual(0);
@@ -169,6 +198,7 @@ describe('lint-roller-markdown-links', () => {
       FIXTURES_DIR,
       'skipped-external-link.md',
       '--fetch-external-links',
+      '--no-cache',
     );
 
     expect(status).toEqual(0);
@@ -266,4 +296,227 @@ describe('lint-roller-markdown-links', () => {
       expect(status).toEqual(0);
     });
   });
+
+  it('can output diagnostics as JSON', () => {
+    const { status, stdout } = runLintMarkdownLinks(
+      '--root',
+      FIXTURES_DIR,
+      '--format',
+      'json',
+      'broken-internal-link.md',
+      'absolute-internal-link.md',
+    );
+
+    expect(JSON.parse(stdout)).toEqual([
+      {
+        file: 'absolute-internal-link.md',
+        line: 9,
+        column: 9,
+        endLine: 9,
+        endColumn: 51,
+        severity: 'error',
+        ruleId: 'absolute-link',
+        message: 'Absolute link: /broken-internal-link.md',
+      },
+      {
+        file: 'broken-internal-link.md',
+        line: 9,
+        column: 9,
+        endLine: 9,
+        endColumn: 42,
+        severity: 'error',
+        ruleId: 'broken-fragment',
+        message: "No header found: 'target-zection'",
+      },
+    ]);
+    expect(status).toEqual(1);
+  });
+
+  describe('external links on a local server', () => {
+    const requests: string[] = [];
+    const userAgents = new Map<string, string | undefined>();
+    let server: http.Server;
+    let baseUrl: string;
+    let tempDir: string;
+    let cacheLocation: string;
+
+    beforeAll(async () => {
+      server = http.createServer((req, res) => {
+        requests.push(req.url!);
+        userAgents.set(req.url!, req.headers['user-agent']);
+        res.statusCode = req.url === '/broken' ? 404 : 200;
+        res.end();
+      });
+      await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    beforeEach(() => {
+      requests.length = 0;
+      userAgents.clear();
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'lint-roller-markdown-links-'));
+      cacheLocation = path.join(tempDir, 'cache', 'links.json');
+      fs.writeFileSync(
+        path.join(tempDir, 'links.md'),
+        `This is a [working link](${baseUrl}/ok) and a [broken link](${baseUrl}/broken)\n`,
+      );
+    });
+
+    afterEach(() => {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it('should only fetch uncached or previously broken links', async () => {
+      const args = ['--root', tempDir, '--fetch-external-links', '--cache-location', cacheLocation];
+
+      const first = await runLintMarkdownLinksAsync(...args, 'links.md');
+      expect(first.stdout).toContain('Broken link');
+      expect(first.status).toEqual(1);
+      expect(requests.sort()).toEqual(['/broken', '/ok']);
+
+      const cache = JSON.parse(fs.readFileSync(cacheLocation, 'utf-8'));
+      expect(cache.links[`${baseUrl}/ok`].status).toEqual(200);
+      expect(cache.links[`${baseUrl}/broken`].status).toEqual(404);
+
+      requests.length = 0;
+
+      const second = await runLintMarkdownLinksAsync(...args, 'links.md');
+      expect(second.stdout).toContain('Broken link');
+      expect(second.status).toEqual(1);
+      expect(requests).toEqual(['/broken']);
+    });
+
+    it('should refetch expired links', async () => {
+      const args = ['--root', tempDir, '--fetch-external-links', '--cache-location', cacheLocation];
+
+      await runLintMarkdownLinksAsync(...args, 'links.md');
+      requests.length = 0;
+
+      await runLintMarkdownLinksAsync(...args, '--cache-ttl', '0', 'links.md');
+      expect(requests.sort()).toEqual(['/broken', '/ok']);
+    });
+
+    it('should start with an empty cache if the cache is corrupt', async () => {
+      fs.mkdirSync(path.dirname(cacheLocation), { recursive: true });
+      fs.writeFileSync(cacheLocation, '{"version": 1, "links": {');
+
+      const { status, stderr } = await runLintMarkdownLinksAsync(
+        '--root',
+        tempDir,
+        '--fetch-external-links',
+        '--cache-location',
+        cacheLocation,
+        'links.md',
+      );
+
+      expect(stderr).toContain(`Couldn't parse link cache at ${cacheLocation}`);
+      expect(status).toEqual(1);
+      expect(requests.sort()).toEqual(['/broken', '/ok']);
+
+      const cache = JSON.parse(fs.readFileSync(cacheLocation, 'utf-8'));
+      expect(cache.links[`${baseUrl}/ok`].status).toEqual(200);
+    });
+
+    it('should not write a cache with --no-cache', async () => {
+      const { status } = await runLintMarkdownLinksAsync(
+        '--root',
+        tempDir,
+        '--fetch-external-links',
+        '--cache-location',
+        cacheLocation,
+        '--no-cache',
+        'links.md',
+      );
+
+      expect(status).toEqual(1);
+      expect(fs.existsSync(cacheLocation)).toEqual(false);
+    });
+
+    describe('markdown-links config', () => {
+      function writeConfig(config: Record<string, unknown>) {
+        const configPath = path.join(tempDir, '.lint-roller.json');
+        fs.writeFileSync(configPath, JSON.stringify({ 'markdown-links': config }));
+        return configPath;
+      }
+
+      it('should skip links matching a hostname pattern', async () => {
+        const { status, stdout } = await runLintMarkdownLinksAsync(
+          '--root',
+          tempDir,
+          '--fetch-external-links',
+          '--no-cache',
+          '--config',
+          writeConfig({ skip: ['127.0.0.*'] }),
+          'links.md',
+        );
+
+        expect(stdout).toContain('Skipping');
+        expect(requests).toEqual([]);
+        expect(status).toEqual(0);
+      });
+
+      it('should skip links matching a URL glob', async () => {
+        const { status } = await runLintMarkdownLinksAsync(
+          '--root',
+          tempDir,
+          '--fetch-external-links',
+          '--no-cache',
+          '--config',
+          writeConfig({ skip: [`${baseUrl}/broken*`] }),
+          'links.md',
+        );
+
+        expect(requests).toEqual(['/ok']);
+        expect(status).toEqual(0);
+      });
+
+      it('should only warn for broken links matching a warn pattern', async () => {
+        const { status, stdout } = await runLintMarkdownLinksAsync(
+          '--root',
+          tempDir,
+          '--fetch-external-links',
+          '--no-cache',
+          '--config',
+          writeConfig({ warn: [`${baseUrl}/broken`] }),
+          'links.md',
+        );
+
+        expect(stdout).toContain('Broken link (warning)');
+        expect(status).toEqual(0);
+      });
+
+      it('should send extra headers for matching links', async () => {
+        await runLintMarkdownLinksAsync(
+          '--root',
+          tempDir,
+          '--fetch-external-links',
+          '--no-cache',
+          '--config',
+          writeConfig({
+            headers: [{ patterns: [`${baseUrl}/ok`], headers: { 'user-agent': 'lint-roller' } }],
+          }),
+          'links.md',
+        );
+
+        expect(userAgents.get('/ok')).toEqual('lint-roller');
+        expect(userAgents.get('/broken')).not.toEqual('lint-roller');
+      });
+
+      it('should ignore internal links matching a skip pattern', () => {
+        const { status } = runLintMarkdownLinks(
+          '--root',
+          FIXTURES_DIR,
+          '--config',
+          writeConfig({ skip: ['#target-*'] }),
+          'broken-internal-link.md',
+        );
+
+        expect(status).toEqual(0);
+      });
+    });
+  });
 });
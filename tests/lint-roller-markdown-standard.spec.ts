@@ -125,4 +125,31 @@ describe('lint-roller-markdown-standard', () => {
       expect(status).toEqual(0);
     }
   });
+
+  it('can output diagnostics as JSON', () => {
+    const { status, stdout } = runLintMarkdownStandard(
+      '--root',
+      FIXTURES_DIR,
+      '--format',
+      'json',
+      'dirty.md',
+    );
+
+    const diagnostics = JSON.parse(stdout);
+    expect(diagnostics).toHaveLength(20);
+    expect(diagnostics).toContainEqual({
+      file: 'dirty.md',
+      line: 21,
+      column: 9,
+      endLine: 21,
+      endColumn: 11,
+      severity: 'error',
+      ruleId: 'standard/eqeqeq',
+      message: "Expected '===' and instead saw '=='.",
+    });
+    expect(diagnostics).toContainEqual(
+      expect.objectContaining({ line: 40, column: 1, ruleId: 'standard/lowercase-language' }),
+    );
+    expect(status).toEqual(1);
+  });
 });
@@ -1,4 +1,6 @@
 import * as cp from 'node:child_process';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
 import * as path from 'node:path';
 
 import { describe, expect, it } from 'vitest';
@@ -84,4 +86,263 @@ describe('lint-roller-markdown-ts-check', () => {
     expect(stderr).toEqual('');
     expect(status).toEqual(0);
   });
+
+  it('can type check multiple code blocks together', () => {
+    const { status, stdout } = runLintMarkdownTsCheck(
+      '--root',
+      FIXTURES_DIR,
+      '--format',
+      'json',
+      'ts-check-continue.md',
+    );
+
+    const diagnostics = JSON.parse(stdout);
+    expect(
+      diagnostics.map(
+        ({ line, column, ruleId }: { line: number; column: number; ruleId: string }) => [
+          line,
+          column,
+          ruleId,
+        ],
+      ),
+    ).toEqual([
+      [13, 10, 'TS2339'],
+      [25, 13, 'TS2304'],
+      [29, 7, 'TS2322'],
+    ]);
+    expect(status).toEqual(1);
+  });
+
+  it('can check type queries and expected error codes', () => {
+    const { status, stdout } = runLintMarkdownTsCheck(
+      '--root',
+      FIXTURES_DIR,
+      '--format',
+      'json',
+      'ts-check-type-queries.md',
+    );
+
+    const diagnostics = JSON.parse(stdout);
+    expect(
+      diagnostics.map(({ line, ruleId, message }: Record<string, string>) => [
+        line,
+        ruleId,
+        message,
+      ]),
+    ).toEqual([
+      [12, 'ts-check/type-query', "Expected type 'string' but found 'number[]'"],
+      [17, 'ts-check/type-query', "Type query has no expected type, found 'Rectangle'"],
+      [25, 'ts-check/expected-error', 'Expected error TS2345 but found TS2339'],
+      [25, 'TS2339', "Property 'wrongAPI' does not exist on type 'typeof BrowserWindow'."],
+      [
+        28,
+        'ts-check/invalid-expect-error',
+        "Invalid @ts-expect-error entry '1:', expected a line or a line and an error code, like 3 or 3:2339",
+      ],
+    ]);
+    expect(status).toEqual(1);
+  });
+
+  it('can type check JSX, ESM and CommonJS code blocks', () => {
+    const { status, stdout } = runLintMarkdownTsCheck(
+      '--root',
+      FIXTURES_DIR,
+      '--config',
+      'nodenext-config.json',
+      '--format',
+      'json',
+      'ts-check-languages.md',
+    );
+
+    const diagnostics = JSON.parse(stdout);
+    expect(
+      diagnostics.map(({ line, ruleId }: { line: number; ruleId: string }) => [line, ruleId]),
+    ).toEqual([
+      [10, 'TS2322'],
+      // import.meta is only allowed in the ESM code block
+      [18, 'TS1470'],
+    ]);
+    // Code blocks checked together with a JSX code block are all parsed as JSX
+    expect(diagnostics.filter(({ line }: { line: number }) => line >= 21)).toEqual([]);
+    expect(status).toEqual(1);
+  });
+
+  it.each([['compiler-options-config.json'], ['tsconfig-config.json']])(
+    'can use compiler options from %s',
+    (config) => {
+      const { status, stdout } = runLintMarkdownTsCheck(
+        '--root',
+        FIXTURES_DIR,
+        '--config',
+        config,
+        '--format',
+        'json',
+        'ts-check-compiler-options.md',
+      );
+
+      const diagnostics = JSON.parse(stdout);
+      expect(
+        diagnostics.map(({ line, ruleId }: { line: number; ruleId: string }) => [line, ruleId]),
+      ).toEqual([
+        [4, 'TS7006'],
+        [4, 'TS7006'],
+        [15, 'ts-check/invalid-options'],
+      ]);
+      expect(diagnostics[2].message).toContain("'--target'");
+      expect(status).toEqual(1);
+    },
+  );
+
+  it.each([
+    ['.lint-roller.json', [14, 20]],
+    ['paths-config.json', [20]],
+  ])('can resolve imports from the workspace with %s', (config, notFoundLines) => {
+    const { status, stdout } = runLintMarkdownTsCheck(
+      '--root',
+      FIXTURES_DIR,
+      '--config',
+      config,
+      '--format',
+      'json',
+      'ts-check-modules.md',
+    );
+
+    const diagnostics = JSON.parse(stdout);
+    expect(
+      diagnostics.map(({ line, ruleId }: { line: number; ruleId: string }) => [line, ruleId]),
+    ).toEqual([
+      // Checked against the declarations of the installed package
+      [10, 'TS2339'],
+      ...notFoundLines.map((line) => [line, 'ts-check/module-not-found']),
+    ]);
+    expect(diagnostics.at(-1).message).toEqual(
+      "Cannot find module 'not-a-real-package', install it in the workspace or add its types with typings, typeRoots or paths in the config",
+    );
+    expect(status).toEqual(1);
+  });
+
+  it('should report invalid compiler options for a code block', () => {
+    const { status, stdout } = runLintMarkdownTsCheck(
+      '--root',
+      FIXTURES_DIR,
+      '--format',
+      'json',
+      'ts-check-compiler-options.md',
+    );
+
+    // Not strict by default, so only the invalid options are reported
+    const diagnostics = JSON.parse(stdout);
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0].ruleId).toEqual('ts-check/invalid-options');
+    expect(status).toEqual(1);
+  });
+
+  it('should report compiler options for a code block which the program rejects', () => {
+    const { status, stdout } = runLintMarkdownTsCheck(
+      '--root',
+      FIXTURES_DIR,
+      '--format',
+      'json',
+      'ts-check-missing-types.md',
+    );
+
+    // The code blocks are still type checked
+    const diagnostics = JSON.parse(stdout);
+    expect(
+      diagnostics.map(({ line, ruleId }: { line: number; ruleId: string }) => [line, ruleId]),
+    ).toEqual([
+      [3, 'ts-check/invalid-options'],
+      [4, 'TS2322'],
+      [8, 'TS2322'],
+    ]);
+    expect(diagnostics[0].message).toContain("Cannot find type definition file for 'nope'");
+    expect(status).toEqual(1);
+  });
+
+  it('should error on invalid compiler options in the config', () => {
+    const { status, stderr } = runLintMarkdownTsCheck(
+      '--root',
+      FIXTURES_DIR,
+      '--config',
+      'invalid-compiler-options-config.json',
+      'ts-check-clean.md',
+    );
+
+    expect(stderr).toContain("Unknown compiler option 'strcit'");
+    expect(status).toEqual(1);
+  });
+
+  it('can fix @ts-expect-error directives with --fix option', async () => {
+    const tmpdir = await fs.mkdtemp(path.join(os.tmpdir(), 'lint-roller-'));
+    for (const filename of ['ts-check-fixable.md', 'electron.d.ts']) {
+      await fs.copyFile(path.join(FIXTURES_DIR, filename), path.join(tmpdir, filename));
+    }
+
+    try {
+      const { status, stdout } = runLintMarkdownTsCheck(
+        '--fix',
+        '--root',
+        tmpdir,
+        'ts-check-fixable.md',
+      );
+
+      expect(
+        await fs.readFile(path.join(tmpdir, 'ts-check-fixable.md'), { encoding: 'utf-8' }),
+      ).toMatchSnapshot();
+      expect(stdout).toEqual('File has changed: ts-check-fixable.md\n');
+      expect(status).toEqual(0);
+
+      // Nothing left to fix
+      expect(runLintMarkdownTsCheck('--root', tmpdir, 'ts-check-fixable.md').status).toEqual(0);
+    } finally {
+      await fs.rm(tmpdir, { recursive: true, force: true });
+    }
+  });
+
+  it('can output diagnostics as JSON', () => {
+    const { status, stdout } = runLintMarkdownTsCheck(
+      '--root',
+      FIXTURES_DIR,
+      '--format',
+      'json',
+      'ts-check.md',
+    );
+
+    const diagnostics = JSON.parse(stdout);
+    expect(diagnostics).toHaveLength(15);
+    expect(diagnostics[0]).toEqual(
+      expect.objectContaining({ line: 4, column: 9, severity: 'error', ruleId: 'TS2339' }),
+    );
+    expect(diagnostics).toContainEqual(
+      expect.objectContaining({ line: 37, ruleId: 'ts-check/conflicting-directives' }),
+    );
+    expect(diagnostics).toContainEqual({
+      file: 'ts-check.md',
+      line: 109,
+      column: 5,
+      endLine: 109,
+      endColumn: 6,
+      severity: 'error',
+      ruleId: 'TS2304',
+      message: "Cannot find name 'a'.",
+    });
+    expect(status).toEqual(1);
+  });
+
+  it('can output diagnostics as GitHub Actions annotations', () => {
+    const { status, stdout } = runLintMarkdownTsCheck(
+      '--root',
+      FIXTURES_DIR,
+      '--format',
+      'github',
+      'ts-check.md',
+    );
+
+    const lines = stdout.trim().split('\n');
+    expect(lines).toHaveLength(15);
+    expect(lines[0]).toEqual(
+      "::error file=ts-check.md,line=4,col=9,endLine=4,endColumn=12,title=TS2339::Property 'foo' does not exist on type 'Console'.",
+    );
+    expect(status).toEqual(1);
+  });
 });
@@ -0,0 +1,140 @@
+import * as cp from 'node:child_process';
+import * as path from 'node:path';
+
+import { describe, expect, it } from 'vitest';
+
+const FIXTURES_DIR = path.resolve(__dirname, 'fixtures');
+
+function runLintRoller(...args: string[]) {
+  return cp.spawnSync(
+    process.execPath,
+    [path.resolve(__dirname, '../dist/bin/lint-roller.js'), ...args],
+    { stdio: 'pipe', encoding: 'utf-8' },
+  );
+}
+
+describe('lint-roller', () => {
+  it('should show usage for an unknown command', () => {
+    const { status, stdout } = runLintRoller('lint', '--root', FIXTURES_DIR, 'clean.md');
+
+    expect(stdout).toContain('Usage: lint-roller');
+    expect(status).toEqual(1);
+  });
+
+  it('should run a command', () => {
+    const { status, stdout } = runLintRoller('standard', '--root', FIXTURES_DIR, 'dirty.md');
+
+    expect(stdout).toContain('Extra semicolon.');
+    expect(stdout).toContain("There are 20 errors in '");
+    expect(status).toEqual(1);
+  });
+
+  it('should pass options through to a command', () => {
+    const { status, stdout } = runLintRoller(
+      'links',
+      '--root',
+      FIXTURES_DIR,
+      '--format',
+      'json',
+      'broken-internal-link.md',
+    );
+
+    expect(JSON.parse(stdout)).toEqual([
+      expect.objectContaining({ file: 'broken-internal-link.md', ruleId: 'broken-fragment' }),
+    ]);
+    expect(status).toEqual(1);
+  });
+
+  describe('all', () => {
+    it('should run clean when there are no errors', () => {
+      const { status, stdout } = runLintRoller(
+        'all',
+        '--root',
+        FIXTURES_DIR,
+        'api-history-valid.md',
+        'doctest-clean.md',
+        'ts-check-clean.md',
+        'valid-cross-file-link.md',
+      );
+
+      for (const command of ['links', 'standard', 'ts-check', 'api-history', 'doctest']) {
+        expect(stdout).toContain(`lint-roller ${command}:`);
+      }
+      expect(stdout).not.toContain('lint-roller api-typings:');
+      expect(status).toEqual(0);
+    });
+
+    it('should fail if any command has errors', () => {
+      const { status, stdout } = runLintRoller(
+        'all',
+        '--root',
+        FIXTURES_DIR,
+        'broken-internal-link.md',
+        'doctest-clean.md',
+      );
+
+      expect(stdout).toContain("Broken link on line 9: No header found: 'target-zection'");
+      expect(stdout).toContain('lint-roller doctest:');
+      expect(status).toEqual(1);
+    });
+
+    it('can ignore a glob', () => {
+      const { status } = runLintRoller(
+        'all',
+        '--root',
+        FIXTURES_DIR,
+        '--ignore',
+        '**/broken-internal-link.md',
+        '{broken-internal-link,doctest-clean}.md',
+      );
+
+      expect(status).toEqual(0);
+    });
+
+    it('should check typings if given', () => {
+      const { status, stdout } = runLintRoller(
+        'all',
+        '--root',
+        FIXTURES_DIR,
+        '--typings',
+        path.resolve(FIXTURES_DIR, 'api-typings', 'electron.d.ts'),
+        'api-typings/app.md',
+      );
+
+      expect(stdout).toContain('lint-roller api-typings:');
+      expect(stdout).toContain(
+        "api-typings/app.md:21:1: Method 'relaunch' of App is documented but isn't declared in electron.d.ts",
+      );
+      expect(status).toEqual(1);
+    });
+
+    it('should output GitHub Actions workflow commands', () => {
+      const { status, stdout } = runLintRoller(
+        'all',
+        '--root',
+        FIXTURES_DIR,
+        '--format',
+        'github',
+        'broken-internal-link.md',
+      );
+
+      expect(stdout).toMatch(/^::error file=\S*broken-internal-link\.md,line=9,/m);
+      expect(stdout).not.toContain('lint-roller links:');
+      expect(status).toEqual(1);
+    });
+
+    it('should show usage for formats which cannot be combined', () => {
+      const { status, stdout } = runLintRoller(
+        'all',
+        '--root',
+        FIXTURES_DIR,
+        '--format',
+        'json',
+        'clean.md',
+      );
+
+      expect(stdout).toContain('Usage: lint-roller');
+      expect(status).toEqual(1);
+    });
+  });
+});
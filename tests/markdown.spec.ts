@@ -0,0 +1,98 @@
+import * as path from 'node:path';
+
+import { describe, expect, it } from 'vitest';
+import { URI } from 'vscode-uri';
+
+import { getHeadingAnchors, DocsWorkspace } from '../lib/markdown.js';
+
+const FIXTURES_DIR = path.resolve(__dirname, 'fixtures');
+
+function getAnchors(content: string) {
+  return getHeadingAnchors(content).map(({ anchor }) => anchor);
+}
+
+describe('getHeadingAnchors', () => {
+  it('should return an empty array if there are no headings', () => {
+    expect(getAnchors('Some text\n')).toEqual([]);
+  });
+
+  it('should include the contents of inline code', () => {
+    expect(getAnchors('### `app.foo()` removed\n')).toEqual(['appfoo-removed']);
+    expect(
+      getAnchors('### Deprecated: `BrowserWindow.setTrafficLightPosition(position)`\n'),
+    ).toEqual(['deprecated-browserwindowsettrafficlightpositionposition']);
+  });
+
+  it('should include the text of nested inline nodes', () => {
+    expect(
+      getAnchors(
+        '## `win.setBounds(bounds[, animate])` _macOS_ **Experimental**\n\n' +
+          '## Removed: [`ipcRenderer.sendTo()`](api/ipc-renderer.md) _Deprecated_\n',
+      ),
+    ).toEqual([
+      'winsetboundsbounds-animate-macos-experimental',
+      'removed-ipcrenderersendto-deprecated',
+    ]);
+  });
+
+  it('should not include HTML tags', () => {
+    expect(getAnchors('### Event: <code>close</code> <sup>beta</sup>\n')).toEqual([
+      'event-close-beta',
+    ]);
+  });
+
+  it('should keep underscores and remove punctuation', () => {
+    expect(getAnchors('### `process.env.ELECTRON_RUN_AS_NODE`\n')).toEqual([
+      'processenvelectron_run_as_node',
+    ]);
+    expect(getAnchors('### `systemPreferences.{get,set}AppLevelAppearance`\n')).toEqual([
+      'systempreferencesgetsetapplevelappearance',
+    ]);
+  });
+
+  it('should add a suffix to duplicate anchors', () => {
+    expect(
+      getAnchors(
+        '## `app.foo()`\n\n## Class: Foo\n\n## `app.foo()`\n\n## `app.foo()` _macOS_\n\n## `app.foo()`\n',
+      ),
+    ).toEqual(['appfoo', 'class-foo', 'appfoo-1', 'appfoo-macos', 'appfoo-2']);
+  });
+
+  it('should return the heading for each anchor', () => {
+    const [{ heading, anchor }] = getHeadingAnchors('Some text\n\n### `app.foo()` removed\n');
+
+    expect(anchor).toEqual('appfoo-removed');
+    expect(heading.depth).toEqual(3);
+    expect(heading.position?.start.line).toEqual(3);
+  });
+});
+
+describe('DocsWorkspace', () => {
+  it('should only read each document once', async () => {
+    const workspace = new DocsWorkspace(FIXTURES_DIR, ['clean.md', '{clean,dirty}.md']);
+    const documents = [...(await workspace.getAllMarkdownDocuments())];
+
+    expect(documents.map(({ uri }) => path.basename(URI.parse(uri).fsPath))).toEqual([
+      'clean.md',
+      'dirty.md',
+    ]);
+    expect([...(await workspace.getAllMarkdownDocuments())]).toEqual(documents);
+    expect(
+      await workspace.openMarkdownDocument(URI.file(path.join(FIXTURES_DIR, 'clean.md'))),
+    ).toBe(documents[0]);
+  });
+
+  it('should only return documents matching the globs', async () => {
+    const workspace = new DocsWorkspace(FIXTURES_DIR, ['valid-cross-file-link.md']);
+
+    await workspace.openMarkdownDocument(
+      URI.file(path.join(FIXTURES_DIR, 'broken-internal-link.md')),
+    );
+
+    expect(
+      [...(await workspace.getAllMarkdownDocuments())].map(({ uri }) =>
+        path.basename(URI.parse(uri).fsPath),
+      ),
+    ).toEqual(['valid-cross-file-link.md']);
+  });
+});
@@ -0,0 +1,138 @@
+import * as cp from 'node:child_process';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { pathToFileURL } from 'node:url';
+
+import Ajv from 'ajv-draft-04';
+import { describe, expect, it } from 'vitest';
+
+const FIXTURES_DIR = path.resolve(__dirname, 'fixtures');
+
+const validateSarif = new Ajv({ allErrors: true, strict: false, unicodeRegExp: false }).compile(
+  JSON.parse(fs.readFileSync(path.join(FIXTURES_DIR, 'sarif-2.1.0.schema.json'), 'utf-8')),
+);
+
+function runCommand(script: string, ...args: string[]) {
+  return cp.spawnSync(
+    process.execPath,
+    [path.resolve(__dirname, '../dist/bin', script), '--format', 'sarif', ...args],
+    {
+      stdio: 'pipe',
+      encoding: 'utf-8',
+      cwd: FIXTURES_DIR,
+      env: { ...process.env, NODE_OPTIONS: '--no-deprecation' },
+    },
+  );
+}
+
+function parseSarif(stdout: string) {
+  const log = JSON.parse(stdout);
+  const isValid = validateSarif(log);
+
+  expect(validateSarif.errors ?? []).toEqual([]);
+  expect(isValid).toEqual(true);
+
+  return log;
+}
+
+describe('SARIF output', () => {
+  it('is valid for lint-roller-markdown-links', () => {
+    const { status, stdout } = runCommand(
+      'lint-markdown-links.js',
+      '--root',
+      FIXTURES_DIR,
+      'broken-internal-link.md',
+      'absolute-internal-link.md',
+    );
+
+    const log = parseSarif(stdout);
+    const [run] = log.runs;
+
+    expect(run.tool.driver.name).toEqual('lint-roller-markdown-links');
+    expect(run.tool.driver.rules).toEqual([
+      { id: 'absolute-link', shortDescription: { text: expect.any(String) } },
+      { id: 'broken-fragment', shortDescription: { text: expect.any(String) } },
+    ]);
+    expect(run.originalUriBaseIds.ROOT.uri).toEqual(
+      pathToFileURL(`${FIXTURES_DIR}${path.sep}`).toString(),
+    );
+    expect(run.results[1]).toEqual({
+      ruleId: 'broken-fragment',
+      ruleIndex: 1,
+      level: 'error',
+      message: { text: "No header found: 'target-zection'" },
+      locations: [
+        {
+          physicalLocation: {
+            artifactLocation: { uri: 'broken-internal-link.md', uriBaseId: 'ROOT' },
+            region: { startLine: 9, startColumn: 9, endLine: 9, endColumn: 42 },
+          },
+        },
+      ],
+    });
+    expect(status).toEqual(1);
+  });
+
+  it('is valid for lint-roller-markdown-standard', () => {
+    const { status, stdout } = runCommand(
+      'lint-markdown-standard.js',
+      '--root',
+      FIXTURES_DIR,
+      'dirty.md',
+    );
+
+    const log = parseSarif(stdout);
+    const ruleIds = log.runs[0].tool.driver.rules.map(({ id }: { id: string }) => id);
+
+    expect(ruleIds).toContain('standard/eqeqeq');
+    expect(ruleIds).toContain('standard/lowercase-language');
+    expect(log.runs[0].results).toHaveLength(20);
+    expect(status).toEqual(1);
+  });
+
+  it('is valid for lint-roller-markdown-ts-check', () => {
+    const { status, stdout } = runCommand(
+      'lint-markdown-ts-check.js',
+      '--root',
+      FIXTURES_DIR,
+      'ts-check.md',
+    );
+
+    const log = parseSarif(stdout);
+    const ruleIds = log.runs[0].tool.driver.rules.map(({ id }: { id: string }) => id);
+
+    expect(ruleIds).toEqual(['TS2304', 'TS2339', 'ts-check/conflicting-directives']);
+    expect(status).toEqual(1);
+  });
+
+  it('is valid for lint-roller-markdown-api-history', () => {
+    const { status, stdout } = runCommand(
+      'lint-markdown-api-history.js',
+      '--root',
+      FIXTURES_DIR,
+      '--schema',
+      path.join(FIXTURES_DIR, 'api-history.schema.json'),
+      '{api-history-schema-invalid,api-history-placement-invalid}.md',
+    );
+
+    const log = parseSarif(stdout);
+    const ruleIds = log.runs[0].tool.driver.rules.map(({ id }: { id: string }) => id);
+
+    expect(ruleIds).toEqual(['api-history/placement', 'api-history/schema']);
+    expect(status).toEqual(1);
+  });
+
+  it('is valid when there are no diagnostics', () => {
+    const { status, stdout } = runCommand(
+      'lint-markdown-links.js',
+      '--root',
+      FIXTURES_DIR,
+      'valid-cross-file-link.md',
+    );
+
+    const log = parseSarif(stdout);
+
+    expect(log.runs[0].results).toEqual([]);
+    expect(status).toEqual(0);
+  });
+});